@@ -0,0 +1,89 @@
+// Drains the upload outbox written by client/src/lib/outbox.ts when
+// Background Sync reports a connection, even if no page is open.
+const DB_NAME = "wedding-gallery";
+const DB_VERSION = 1;
+const STORE = "outbox";
+const SYNC_TAG = "upload-outbox";
+const OUTBOX_LOCK = "upload-outbox";
+const CHANGE_CHANNEL = "upload-outbox";
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(drainOutbox());
+  }
+});
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "id" });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore(mode, run) {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function notifyChange() {
+  const channel = new BroadcastChannel(CHANGE_CHANNEL);
+  channel.postMessage("changed");
+  channel.close();
+}
+
+// The server turning a file down (a 4xx or a per-file error) comes back as an
+// error result so the entry can be marked failed. No answer or a server error
+// rejects, which leaves the entry pending for the next sync.
+async function uploadEntry(entry) {
+  const existing = await fetch(`/api/media/by-hash/${entry.id}`, { credentials: "include" });
+  if (existing.ok) return { status: "duplicate" };
+
+  const fields = entry.fields || {};
+  const formData = new FormData();
+  if (fields.uploaderName) formData.append("uploaderName", fields.uploaderName);
+  if (fields.optimized) formData.append("optimized", "1");
+  formData.append("media", new File([entry.file], entry.name, { type: entry.type, lastModified: entry.lastModified }));
+  const response = await fetch("/api/media/upload", { method: "POST", body: formData, credentials: "include" });
+  const body = await response.json().catch(() => ({}));
+  const result = body.results && body.results[0];
+  if (response.ok && result) return result;
+
+  const message = body.message || `Upload failed with status ${response.status}`;
+  if (response.status >= 400 && response.status < 500) {
+    return { status: "error", message };
+  }
+  throw new Error(message);
+}
+
+async function drainPending() {
+  const entries = await withStore("readonly", (store) => store.getAll());
+  for (const entry of entries.sort((a, b) => a.addedAt - b.addedAt)) {
+    if (entry.status !== "pending") continue;
+
+    // A network or server error rejects here, which makes the browser retry the sync later
+    const result = await uploadEntry(entry);
+    if (result.status === "error") {
+      await withStore("readwrite", (store) => store.put({ ...entry, status: "failed", message: result.message }));
+    } else {
+      await withStore("readwrite", (store) => store.delete(entry.id));
+    }
+    notifyChange();
+  }
+}
+
+// Waits for a page that is draining to finish rather than skipping, so the
+// sync only completes once the outbox really is empty
+function drainOutbox() {
+  if (!self.navigator.locks) return drainPending();
+  return self.navigator.locks.request(OUTBOX_LOCK, () => drainPending());
+}
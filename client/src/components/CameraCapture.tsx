@@ -1,25 +1,97 @@
 import { useState, useRef, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
 import { useToast } from "@/hooks/use-toast";
-import { Camera, Video, StopCircle } from "lucide-react";
+import { format } from "date-fns";
+import { Camera, Video, StopCircle, RotateCcw, Check, SwitchCamera, Flashlight, FlashlightOff } from "lucide-react";
+import {
+  RESOLUTION_PRESETS,
+  applyTorch,
+  applyZoom,
+  listCameras,
+  loadCameraPreferences,
+  saveCameraPreferences,
+  trackControls,
+  videoConstraints,
+  type CameraPreferences,
+  type ResolutionPreset,
+  type TrackControls,
+} from "@/lib/camera";
+import {
+  BOOTH_LAYOUTS,
+  BOOTH_SHOTS,
+  COUNTDOWN_SECONDS,
+  boothFrameUrl,
+  canvasToJpeg,
+  composeStrip,
+  drawOverlay,
+  loadImage,
+  sleep,
+  type BoothLayout,
+} from "@/lib/booth";
+import type { GallerySettings } from "@shared/schema";
 
 interface CameraCaptureProps {
-  onMediaCaptured: (blob: Blob) => void;
+  onMediaCaptured: (file: File) => void;
+  // Full-screen photo booth: photos only, the camera starts by itself and
+  // each shot starts with a countdown
+  kiosk?: boolean;
 }
 
-export default function CameraCapture({ onMediaCaptured }: CameraCaptureProps) {
+const extensions: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+};
+
+// Names captures like phone cameras do (IMG_20240615_183012.jpg) and stamps
+// them with the capture time, which the gallery falls back to for sorting.
+// Burst shots taken within the same second get a sequence number.
+function capturedFile(blob: Blob, capturedAt: Date, sequence?: number): File {
+  const type = blob.type.split(';')[0];
+  const prefix = type.startsWith('video/') ? 'VID' : 'IMG';
+  const suffix = sequence === undefined ? '' : `_${sequence}`;
+  const name = `${prefix}_${format(capturedAt, 'yyyyMMdd_HHmmss')}${suffix}.${extensions[type] ?? 'bin'}`;
+  return new File([blob], name, { type, lastModified: capturedAt.getTime() });
+}
+
+export default function CameraCapture({ onMediaCaptured, kiosk = false }: CameraCaptureProps) {
   const [cameraActive, setCameraActive] = useState(false);
   const [isVideoMode, setIsVideoMode] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  // The last capture (several for a burst), shown for review before it is kept
+  const [previews, setPreviews] = useState<{ file: File; url: string }[]>([]);
+  const [timerSeconds, setTimerSeconds] = useState(kiosk ? 3 : 0);
+  const [layout, setLayout] = useState<BoothLayout>('single');
+  const [frameId, setFrameId] = useState('');
+  const [isShooting, setIsShooting] = useState(false);
+  const [count, setCount] = useState(0);
+  const [flash, setFlash] = useState(false);
+  const [preferences, setPreferences] = useState<CameraPreferences>(loadCameraPreferences);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  // What the open camera actually is and supports, which may differ from what was asked for
+  const [activeDeviceId, setActiveDeviceId] = useState<string>();
+  const [mirrored, setMirrored] = useState(false);
+  const [controls, setControls] = useState<TrackControls>({ torch: false });
+  const [torchOn, setTorchOn] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const recordedChunksRef = useRef<Blob[]>([]);
   const { toast } = useToast();
 
-  // Clean up on unmount
+  const { data: settings } = useQuery<GallerySettings>({
+    queryKey: ['/api/settings'],
+  });
+  const frames = settings?.booth.frames ?? [];
+  const frame = frames.find(candidate => candidate.id === frameId);
+
+  // List cameras up front so switching is offered; clean up on unmount
   useEffect(() => {
+    listCameras().then(setCameras).catch(() => {});
+    if (kiosk) startCamera();
     return () => {
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
@@ -27,71 +99,211 @@ export default function CameraCapture({ onMediaCaptured }: CameraCaptureProps) {
     };
   }, []);
 
-  const startCamera = async () => {
+  useEffect(() => {
+    return () => previews.forEach(preview => URL.revokeObjectURL(preview.url));
+  }, [previews]);
+
+  const showPreview = (files: File[]) => {
+    setPreviews(files.map(file => ({ file, url: URL.createObjectURL(file) })));
+  };
+
+  const handleRetake = () => {
+    setPreviews([]);
+  };
+
+  const handleKeep = () => {
+    previews.forEach(preview => onMediaCaptured(preview.file));
+    setPreviews([]);
+  };
+
+  const updatePreferences = (next: CameraPreferences) => {
+    setPreferences(next);
+    saveCameraPreferences(next);
+  };
+
+  const stopCamera = () => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    setCameraActive(false);
+    setTorchOn(false);
+    setControls({ torch: false });
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+  };
+
+  const openCamera = async (prefs: CameraPreferences) => {
+    let stream: MediaStream;
     try {
-      if (cameraActive) {
-        // Stop the camera
-        if (streamRef.current) {
-          streamRef.current.getTracks().forEach(track => track.stop());
-          streamRef.current = null;
-        }
-        setCameraActive(false);
-        if (videoRef.current) {
-          videoRef.current.srcObject = null;
-        }
-        return;
+      stream = await navigator.mediaDevices.getUserMedia({ video: videoConstraints(prefs), audio: isVideoMode });
+    } catch (error) {
+      // The remembered camera may belong to another device or have been unplugged
+      if (!prefs.deviceId || !(error instanceof DOMException) ||
+          (error.name !== 'OverconstrainedError' && error.name !== 'NotFoundError')) {
+        throw error;
       }
+      prefs = { ...prefs, deviceId: undefined };
+      updatePreferences(prefs);
+      stream = await navigator.mediaDevices.getUserMedia({ video: videoConstraints(prefs), audio: isVideoMode });
+    }
 
-      // Start the camera
-      const constraints = {
-        video: true,
-        audio: isVideoMode
-      };
+    if (!videoRef.current) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    videoRef.current.srcObject = stream;
+    streamRef.current = stream;
+    setCameraActive(true);
 
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        streamRef.current = stream;
-        setCameraActive(true);
-      }
+    const [track] = stream.getVideoTracks();
+    const settings = track.getSettings();
+    setActiveDeviceId(settings.deviceId);
+    setMirrored(settings.facingMode === 'user');
+    setControls(trackControls(track));
+    // Camera names are only listed once permission has been granted
+    setCameras(await listCameras());
+  };
+
+  const reportCameraError = (error: unknown) => {
+    console.error("Error accessing camera:", error);
+    toast({
+      title: "Camera Error",
+      description: "Could not access your camera or microphone. Please check permissions.",
+      variant: "destructive"
+    });
+  };
+
+  const startCamera = async () => {
+    if (cameraActive) {
+      stopCamera();
+      return;
+    }
+
+    try {
+      await openCamera(preferences);
     } catch (error) {
-      console.error("Error accessing camera:", error);
-      toast({
-        title: "Camera Error",
-        description: "Could not access your camera or microphone. Please check permissions.",
-        variant: "destructive"
-      });
+      reportCameraError(error);
+    }
+  };
+
+  // Saves the choice and reopens a running camera with it
+  const changeCamera = async (patch: Partial<CameraPreferences>) => {
+    const next = { ...preferences, ...patch };
+    updatePreferences(next);
+    if (!cameraActive) return;
+
+    stopCamera();
+    try {
+      await openCamera(next);
+    } catch (error) {
+      reportCameraError(error);
     }
   };
 
+  const flipCamera = () => {
+    const facingMode = mirrored ? 'environment' : 'user';
+    changeCamera({ facingMode, deviceId: undefined });
+  };
+
+  const toggleTorch = async () => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    try {
+      await applyTorch(track, !torchOn);
+      setTorchOn(!torchOn);
+    } catch (error) {
+      console.error("Error switching torch:", error);
+    }
+  };
+
+  const handleZoom = ([value]: number[]) => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track || !controls.zoom) return;
+    setControls({ ...controls, zoom: { ...controls.zoom, value } });
+    applyZoom(track, value).catch(error => console.error("Error zooming:", error));
+  };
+
   const toggleMode = () => {
     if (cameraActive) {
       // Stop current stream before changing mode
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-      }
-      setCameraActive(false);
+      stopCamera();
     }
     
     setIsVideoMode(!isVideoMode);
   };
 
-  const capturePhoto = () => {
-    if (!videoRef.current || !streamRef.current) return;
-
+  // Copies the current video frame, or undefined once the camera was stopped
+  const grabFrame = (): HTMLCanvasElement | undefined => {
     const video = videoRef.current;
+    if (!video || !streamRef.current) return undefined;
+
     const canvas = document.createElement('canvas');
     canvas.width = video.videoWidth;
     canvas.height = video.videoHeight;
-    
-    const context = canvas.getContext('2d');
-    if (context) {
-      context.drawImage(video, 0, 0, canvas.width, canvas.height);
-      canvas.toBlob((blob) => {
-        if (blob) {
-          onMediaCaptured(blob);
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    setFlash(true);
+    setTimeout(() => setFlash(false), 150);
+    return canvas;
+  };
+
+  const runCountdown = async (seconds: number) => {
+    for (let remaining = seconds; remaining > 0; remaining--) {
+      setCount(remaining);
+      await sleep(1000);
+    }
+    setCount(0);
+  };
+
+  const capturePhoto = async () => {
+    if (!videoRef.current || !streamRef.current) return;
+
+    setIsShooting(true);
+    try {
+      // Loaded before the countdown so a slow network cannot delay the shot
+      const overlay = frame ? await loadImage(boothFrameUrl(frame)) : undefined;
+      const shotCount = layout === 'single' ? 1 : BOOTH_SHOTS;
+
+      const shots: { canvas: HTMLCanvasElement; takenAt: Date }[] = [];
+      for (let index = 0; index < shotCount; index++) {
+        if (index === 0) {
+          await runCountdown(timerSeconds);
+        } else if (layout === 'strip') {
+          // Time to change pose between strip shots
+          await runCountdown(Math.max(timerSeconds, 2));
+        } else {
+          await sleep(400);
         }
-      }, 'image/jpeg', 0.95);
+
+        const canvas = grabFrame();
+        if (!canvas) return;
+        shots.push({ canvas, takenAt: new Date() });
+      }
+
+      const outputs = layout === 'strip'
+        ? [{ canvas: composeStrip(shots.map(shot => shot.canvas), settings?.booth.caption ?? ''), takenAt: shots[0].takenAt }]
+        : shots;
+
+      const files: File[] = [];
+      for (let index = 0; index < outputs.length; index++) {
+        const output = outputs[index];
+        if (overlay) drawOverlay(output.canvas, overlay);
+        const blob = await canvasToJpeg(output.canvas);
+        files.push(capturedFile(blob, output.takenAt, layout === 'burst' ? index + 1 : undefined));
+      }
+      showPreview(files);
+    } catch (error) {
+      console.error("Error taking photo:", error);
+      toast({
+        title: "Photo Error",
+        description: "Could not take the photo. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setCount(0);
+      setIsShooting(false);
     }
   };
 
@@ -125,9 +337,12 @@ export default function CameraCapture({ onMediaCaptured }: CameraCaptureProps) {
         }
       };
       
+      const startedAt = new Date();
       mediaRecorderRef.current.onstop = () => {
-        const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' });
-        onMediaCaptured(blob);
+        // Safari records MP4 even when asked for WebM
+        const type = mediaRecorderRef.current?.mimeType || 'video/webm';
+        const blob = new Blob(recordedChunksRef.current, { type });
+        showPreview([capturedFile(blob, startedAt)]);
         setIsRecording(false);
       };
       
@@ -156,10 +371,9 @@ export default function CameraCapture({ onMediaCaptured }: CameraCaptureProps) {
   };
 
   return (
-    <div className="bg-[#F9F7F3] rounded-lg p-5 border border-[#E8E8E8]">
-      <h3 className="text-xl font-serif text-[#A67C52] mb-4">Capture Moment</h3>
+    <div>
       <div className="text-center">
-        <div className="mb-4 relative border border-[#6B8E9E]/40 rounded-lg aspect-video bg-[#333333]/10 flex items-center justify-center overflow-hidden">
+        <div className={`mb-4 relative border border-[#6B8E9E]/40 rounded-lg ${kiosk ? 'h-[65vh]' : 'aspect-video'} bg-[#333333]/10 flex items-center justify-center overflow-hidden`}>
           {!cameraActive && (
             <div className="text-[#333333]/60">
               Camera preview will appear here
@@ -167,48 +381,190 @@ export default function CameraCapture({ onMediaCaptured }: CameraCaptureProps) {
           )}
           <video 
             ref={videoRef} 
-            className={`w-full h-full object-cover ${!cameraActive ? 'hidden' : ''}`}
+            className={`w-full h-full object-cover ${!cameraActive ? 'hidden' : ''} ${mirrored ? '-scale-x-100' : ''}`}
             autoPlay 
             playsInline
             muted
           />
+          {cameraActive && !previews.length && (controls.torch || cameras.length > 1) && (
+            <div className="absolute top-2 right-2 flex gap-2">
+              {cameras.length > 1 && (
+                <button
+                  onClick={flipCamera}
+                  disabled={isRecording}
+                  className="p-2 rounded-full bg-black/40 text-white hover:bg-black/60 disabled:opacity-50"
+                  aria-label="Switch between front and rear camera"
+                >
+                  <SwitchCamera className="w-5 h-5" />
+                </button>
+              )}
+              {controls.torch && (
+                <button
+                  onClick={toggleTorch}
+                  className="p-2 rounded-full bg-black/40 text-white hover:bg-black/60"
+                  aria-label={torchOn ? "Turn torch off" : "Turn torch on"}
+                  aria-pressed={torchOn}
+                >
+                  {torchOn ? <FlashlightOff className="w-5 h-5" /> : <Flashlight className="w-5 h-5" />}
+                </button>
+              )}
+            </div>
+          )}
+          {cameraActive && !previews.length && controls.zoom && (
+            <div className="absolute bottom-3 left-1/2 -translate-x-1/2 w-1/2 rounded-full bg-black/40 px-3 py-2">
+              <Slider
+                min={controls.zoom.min}
+                max={controls.zoom.max}
+                step={controls.zoom.step}
+                value={[controls.zoom.value]}
+                onValueChange={handleZoom}
+                aria-label="Zoom"
+              />
+            </div>
+          )}
+          {count > 0 && (
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+              <span className="text-white text-8xl font-serif drop-shadow-lg" aria-live="assertive">{count}</span>
+            </div>
+          )}
+          {flash && <div className="absolute inset-0 bg-white/80 pointer-events-none" />}
+          {previews.length > 0 && (
+            <div className={`absolute inset-0 bg-black grid gap-1 ${previews.length > 1 ? 'grid-cols-2' : ''}`}>
+              {previews.map(preview => preview.file.type.startsWith('video/') ? (
+                <video key={preview.url} src={preview.url} className="w-full h-full object-contain" controls playsInline />
+              ) : (
+                <img key={preview.url} src={preview.url} alt="Captured photo" className="w-full h-full object-contain" />
+              ))}
+            </div>
+          )}
         </div>
-        <div className="flex justify-center space-x-4 mt-4">
-          <Button
-            onClick={startCamera}
-            className="px-4 py-2 bg-[#6B8E9E] text-white rounded-md hover:bg-[#4A697A] transition"
-          >
-            {cameraActive ? "Stop Camera" : "Start Camera"}
-          </Button>
-          <Button
-            onClick={handleCapture}
-            disabled={!cameraActive}
-            className="px-4 py-2 bg-[#8B4513] text-white rounded-md hover:bg-[#6A370F] transition disabled:opacity-50"
+        <div className="flex flex-wrap justify-center gap-2 text-sm">
+          {cameras.length > 1 && cameras.some(camera => camera.label) && (
+            <select
+              value={activeDeviceId ?? preferences.deviceId ?? ''}
+              onChange={(e) => changeCamera({ deviceId: e.target.value || undefined })}
+              disabled={isRecording}
+              className="px-2 py-1 border border-[#6B8E9E] text-[#4A697A] rounded-md bg-white max-w-[14rem]"
+              aria-label="Camera"
+            >
+              {!activeDeviceId && !preferences.deviceId && <option value="">Default camera</option>}
+              {cameras.map((camera, index) => (
+                <option key={camera.deviceId} value={camera.deviceId}>
+                  {camera.label || `Camera ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={preferences.resolution}
+            onChange={(e) => changeCamera({ resolution: e.target.value as ResolutionPreset })}
+            disabled={isRecording}
+            className="px-2 py-1 border border-[#6B8E9E] text-[#4A697A] rounded-md bg-white"
+            aria-label="Resolution"
           >
-            {isVideoMode ? (
-              isRecording ? (
-                <span className="flex items-center">
-                  <StopCircle className="w-4 h-4 mr-1" /> Stop Recording
-                </span>
+            {Object.entries(RESOLUTION_PRESETS).map(([value, preset]) => (
+              <option key={value} value={value}>{preset.label}</option>
+            ))}
+          </select>
+          {!isVideoMode && (
+            <>
+              <select
+                value={timerSeconds}
+                onChange={(e) => setTimerSeconds(Number(e.target.value))}
+                disabled={isShooting}
+                className="px-2 py-1 border border-[#6B8E9E] text-[#4A697A] rounded-md bg-white"
+                aria-label="Timer"
+              >
+                {COUNTDOWN_SECONDS.map(seconds => (
+                  <option key={seconds} value={seconds}>{seconds ? `${seconds}s timer` : 'No timer'}</option>
+                ))}
+              </select>
+              <select
+                value={layout}
+                onChange={(e) => setLayout(e.target.value as BoothLayout)}
+                disabled={isShooting}
+                className="px-2 py-1 border border-[#6B8E9E] text-[#4A697A] rounded-md bg-white"
+                aria-label="Layout"
+              >
+                {Object.entries(BOOTH_LAYOUTS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              {frames.length > 0 && (
+                <select
+                  value={frameId}
+                  onChange={(e) => setFrameId(e.target.value)}
+                  disabled={isShooting}
+                  className="px-2 py-1 border border-[#6B8E9E] text-[#4A697A] rounded-md bg-white"
+                  aria-label="Frame"
+                >
+                  <option value="">No frame</option>
+                  {frames.map(candidate => (
+                    <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+                  ))}
+                </select>
+              )}
+            </>
+          )}
+        </div>
+        {previews.length ? (
+          <div className="flex justify-center space-x-4 mt-4">
+            <Button
+              onClick={handleRetake}
+              variant="outline"
+              className="px-3 py-2 border border-[#6B8E9E] text-[#6B8E9E] rounded-md hover:bg-[#6B8E9E]/10 transition"
+            >
+              <RotateCcw className="w-4 h-4 mr-1" /> Retake
+            </Button>
+            <Button
+              onClick={handleKeep}
+              className="px-4 py-2 bg-[#8B4513] text-white rounded-md hover:bg-[#6A370F] transition"
+            >
+              <Check className="w-4 h-4 mr-1" /> {kiosk ? 'Save to album' : 'Add to upload'}
+            </Button>
+          </div>
+        ) : (
+          <div className="flex justify-center space-x-4 mt-4">
+            {(!kiosk || !cameraActive) && (
+              <Button
+                onClick={startCamera}
+                className="px-4 py-2 bg-[#6B8E9E] text-white rounded-md hover:bg-[#4A697A] transition"
+              >
+                {cameraActive ? "Stop Camera" : "Start Camera"}
+              </Button>
+            )}
+            <Button
+              onClick={handleCapture}
+              disabled={!cameraActive || isShooting}
+              className={`${kiosk ? 'px-10 py-7 text-xl' : 'px-4 py-2'} bg-[#8B4513] text-white rounded-md hover:bg-[#6A370F] transition disabled:opacity-50`}
+            >
+              {isVideoMode ? (
+                isRecording ? (
+                  <span className="flex items-center">
+                    <StopCircle className="w-4 h-4 mr-1" /> Stop Recording
+                  </span>
+                ) : (
+                  <span className="flex items-center">
+                    <Video className="w-4 h-4 mr-1" /> Start Recording
+                  </span>
+                )
               ) : (
                 <span className="flex items-center">
-                  <Video className="w-4 h-4 mr-1" /> Start Recording
+                  <Camera className="w-4 h-4 mr-1" /> Take Photo
                 </span>
-              )
-            ) : (
-              <span className="flex items-center">
-                <Camera className="w-4 h-4 mr-1" /> Take Photo
-              </span>
+              )}
+            </Button>
+            {!kiosk && (
+              <Button
+                onClick={toggleMode}
+                variant="outline"
+                className="px-3 py-2 border border-[#6B8E9E] text-[#6B8E9E] rounded-md hover:bg-[#6B8E9E]/10 transition"
+              >
+                {isVideoMode ? "Switch to Photo" : "Switch to Video"}
+              </Button>
             )}
-          </Button>
-          <Button
-            onClick={toggleMode}
-            variant="outline"
-            className="px-3 py-2 border border-[#6B8E9E] text-[#6B8E9E] rounded-md hover:bg-[#6B8E9E]/10 transition"
-          >
-            {isVideoMode ? "Switch to Photo" : "Switch to Video"}
-          </Button>
-        </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,9 +1,11 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import { MediaFile } from "@shared/schema";
-import { Download, Image, Film } from "lucide-react";
+import { Download, Image, Film, Layers, ArrowLeft, Loader2 } from "lucide-react";
 import MediaViewer from "./MediaViewer";
+import ResponsiveImage from "./ResponsiveImage";
+import { fetchMediaPage, stackSimilar, type MediaListParams, type MediaStack } from "@/lib/media";
 
 interface GallerySectionProps {
   onUploadRequest: () => void;
@@ -11,22 +13,67 @@ interface GallerySectionProps {
 
 export default function GallerySection({ onUploadRequest }: GallerySectionProps) {
   const [filter, setFilter] = useState<'all' | 'photos' | 'videos'>('all');
+  const [sortBy, setSortBy] = useState<'taken' | 'uploaded'>('taken');
+  const [grouped, setGrouped] = useState(false);
+  const [openStack, setOpenStack] = useState<MediaStack | null>(null);
   const [selectedMedia, setSelectedMedia] = useState<MediaFile | null>(null);
   const [selectedIndex, setSelectedIndex] = useState<number>(0);
 
-  const { data: mediaItems, isLoading, error } = useQuery<MediaFile[]>({
-    queryKey: ['/api/media'],
+  const listParams: MediaListParams = {
+    sort: sortBy === 'taken' ? 'captured' : 'uploaded',
+    type: filter === 'photos' ? 'image' : filter === 'videos' ? 'video' : undefined,
+  };
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/media', listParams],
+    queryFn: ({ pageParam }) => fetchMediaPage({ ...listParams, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    // Poll while the server is still making thumbnails for new uploads
+    refetchInterval: (query) =>
+      query.state.data?.pages.some(page => page.items.some(item => item.processingStatus === 'processing'))
+        ? 3000
+        : false,
   });
 
-  const filteredMedia = mediaItems?.filter(item => {
-    if (filter === 'all') return true;
-    if (filter === 'photos') return item.fileType.startsWith('image/');
-    if (filter === 'videos') return item.fileType.startsWith('video/');
-    return true;
-  }) || [];
+  const filteredMedia = data?.pages.flatMap(page => page.items) ?? [];
+
+  // Loads the next page as the end of the grid scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '600px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-  const handleMediaClick = (media: MediaFile, index: number) => {
-    setSelectedMedia(media);
+  // Each tile is a stack of similar shots when grouping, otherwise a single item
+  const tiles: MediaStack[] = openStack
+    ? openStack.members.map(member => ({ cover: member, members: [member] }))
+    : grouped
+      ? stackSimilar(filteredMedia)
+      : filteredMedia.map(item => ({ cover: item, members: [item] }));
+  const visibleMedia = tiles.map(tile => tile.cover);
+
+  const handleMediaClick = (tile: MediaStack, index: number) => {
+    if (tile.members.length > 1) {
+      setOpenStack(tile);
+      return;
+    }
+    setSelectedMedia(tile.cover);
     setSelectedIndex(index);
   };
 
@@ -35,16 +82,16 @@ export default function GallerySection({ onUploadRequest }: GallerySectionProps)
   };
 
   const handleNavigate = (direction: 'prev' | 'next') => {
-    if (!filteredMedia.length) return;
+    if (!visibleMedia.length) return;
     
     let newIndex;
     if (direction === 'prev') {
-      newIndex = (selectedIndex - 1 + filteredMedia.length) % filteredMedia.length;
+      newIndex = (selectedIndex - 1 + visibleMedia.length) % visibleMedia.length;
     } else {
-      newIndex = (selectedIndex + 1) % filteredMedia.length;
+      newIndex = (selectedIndex + 1) % visibleMedia.length;
     }
     
-    setSelectedMedia(filteredMedia[newIndex]);
+    setSelectedMedia(visibleMedia[newIndex]);
     setSelectedIndex(newIndex);
   };
 
@@ -59,7 +106,7 @@ export default function GallerySection({ onUploadRequest }: GallerySectionProps)
     );
   }
 
-  const isEmptyGallery = !isLoading && (!mediaItems || mediaItems.length === 0);
+  const isEmptyGallery = !isLoading && filter === 'all' && filteredMedia.length === 0;
 
   return (
     <section>
@@ -97,9 +144,43 @@ export default function GallerySection({ onUploadRequest }: GallerySectionProps)
           >
             Videos
           </Button>
+          <Button
+            onClick={() => {
+              setGrouped(!grouped);
+              setOpenStack(null);
+            }}
+            className={`px-3 py-1 text-sm ${
+              grouped 
+                ? 'bg-[#6B8E9E] text-white' 
+                : 'border border-[#6B8E9E] text-[#6B8E9E]'
+            } rounded-md transition`}
+            aria-pressed={grouped}
+          >
+            <Layers className="h-4 w-4 mr-1" />
+            Group similar
+          </Button>
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as 'taken' | 'uploaded')}
+            className="ml-2 px-2 py-1 text-sm border border-[#6B8E9E] text-[#4A697A] rounded-md bg-white"
+            aria-label="Sort media"
+          >
+            <option value="taken">When taken</option>
+            <option value="uploaded">Recently added</option>
+          </select>
         </div>
       </div>
 
+      {openStack && (
+        <button
+          onClick={() => setOpenStack(null)}
+          className="inline-flex items-center mb-4 text-sm text-[#4A697A] hover:underline"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to all ({openStack.members.length} similar shots)
+        </button>
+      )}
+
       {/* Gallery Grid */}
       {isLoading ? (
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
@@ -121,27 +202,35 @@ export default function GallerySection({ onUploadRequest }: GallerySectionProps)
             Add Photos & Videos
           </Button>
         </div>
+      ) : filteredMedia.length === 0 ? (
+        <p className="py-16 text-center text-[#333333]/70">
+          No {filter === 'photos' ? 'photos' : 'videos'} yet.
+        </p>
       ) : (
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
-          {filteredMedia.map((item, index) => (
+          {tiles.map((tile, index) => {
+            const item = tile.cover;
+            return (
             <div 
               key={item.id}
-              onClick={() => handleMediaClick(item, index)}
+              onClick={() => handleMediaClick(tile, index)}
               className="media-container cursor-pointer rounded-lg overflow-hidden shadow-md bg-white transition hover:translate-y-[-5px]"
             >
               <div className="relative aspect-square">
                 {item.fileType.startsWith('image/') ? (
-                  <img 
-                    src={`/api/media/${item.id}`} 
-                    alt={item.fileName} 
+                  <ResponsiveImage
+                    media={item}
+                    sizes="(min-width: 768px) 25vw, (min-width: 640px) 33vw, 50vw"
+                    fallbackSrc={`/api/media/${item.id}/thumbnail`}
                     className="w-full h-full object-cover"
                     loading="lazy"
                   />
                 ) : (
                   <div className="relative w-full h-full">
-                    <img 
-                      src={`/api/media/${item.id}/thumbnail`} 
-                      alt={item.fileName} 
+                    <ResponsiveImage
+                      media={item}
+                      sizes="(min-width: 768px) 25vw, (min-width: 640px) 33vw, 50vw"
+                      fallbackSrc={`/api/media/${item.id}/thumbnail`}
                       className="w-full h-full object-cover"
                       loading="lazy"
                     />
@@ -152,6 +241,18 @@ export default function GallerySection({ onUploadRequest }: GallerySectionProps)
                     </div>
                   </div>
                 )}
+                {item.processingStatus === 'processing' && (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center bg-white/60 text-[#4A697A] text-xs">
+                    <Loader2 className="h-6 w-6 mb-1 animate-spin" />
+                    Processing…
+                  </div>
+                )}
+                {tile.members.length > 1 && (
+                  <div className="absolute top-2 left-2 flex items-center gap-1 px-2 py-0.5 bg-white/80 rounded-full text-xs text-[#4A697A] shadow-sm">
+                    <Layers className="h-3 w-3" />
+                    {tile.members.length}
+                  </div>
+                )}
                 <div className="absolute bottom-2 right-2">
                   <a 
                     href={`/api/media/${item.id}/download`}
@@ -164,7 +265,21 @@ export default function GallerySection({ onUploadRequest }: GallerySectionProps)
                 </div>
               </div>
             </div>
-          ))}
+            );
+          })}
+        </div>
+      )}
+
+      {hasNextPage && (
+        <div ref={loadMoreRef} className="flex justify-center py-6">
+          <Button
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="px-4 py-2 border border-[#6B8E9E] text-[#6B8E9E] bg-white rounded-md hover:bg-[#6B8E9E]/10"
+          >
+            {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isFetchingNextPage ? 'Loading…' : 'Load more'}
+          </Button>
         </div>
       )}
 
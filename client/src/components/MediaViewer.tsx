@@ -3,6 +3,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { MediaFile } from "@shared/schema";
 import { X, ChevronLeft, ChevronRight, Download } from "lucide-react";
+import ResponsiveImage from "./ResponsiveImage";
+import { format } from "date-fns";
+import { getRenditions, thumbnailUrl, takenAt, cameraName } from "@/lib/media";
 
 interface MediaViewerProps {
   media: MediaFile;
@@ -11,6 +14,8 @@ interface MediaViewerProps {
 }
 
 export default function MediaViewer({ media, onClose, onNavigate }: MediaViewerProps) {
+  const camera = cameraName(media);
+
   // Prevent scrolling of the body when modal is open
   useEffect(() => {
     document.body.style.overflow = 'hidden';
@@ -64,14 +69,16 @@ export default function MediaViewer({ media, onClose, onNavigate }: MediaViewerP
           {/* Media preview */}
           <CardContent className="p-0 flex items-center justify-center min-h-[300px] max-h-[80vh]">
             {media.fileType.startsWith('image/') ? (
-              <img 
-                src={`/api/media/${media.id}`} 
-                alt={media.fileName} 
+              <ResponsiveImage
+                media={media}
+                sizes="(min-width: 896px) 896px, 100vw"
+                fallbackSrc={`/api/media/${media.id}`}
                 className="max-w-full max-h-[80vh] object-contain"
               />
             ) : (
               <video 
                 src={`/api/media/${media.id}`} 
+                poster={getRenditions(media).length ? thumbnailUrl(media, 1600, "jpeg") : undefined}
                 className="max-w-full max-h-[80vh] object-contain" 
                 controls
                 autoPlay
@@ -91,6 +98,10 @@ export default function MediaViewer({ media, onClose, onNavigate }: MediaViewerP
               <Download className="h-4 w-4 mr-2" />
               Download
             </a>
+            <div className="hidden sm:block text-center text-sm text-[#333333]/70">
+              <p>{format(takenAt(media), 'PPP p')}</p>
+              {camera && <p className="text-xs">{camera}</p>}
+            </div>
             <Button 
               onClick={onClose}
               variant="ghost" 
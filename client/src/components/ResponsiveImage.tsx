@@ -0,0 +1,35 @@
+import { MediaFile } from "@shared/schema";
+import { renditionSrcSet, thumbnailUrl } from "@/lib/media";
+
+interface ResponsiveImageProps {
+  media: MediaFile;
+  // CSS `sizes` describing how wide the image is rendered
+  sizes: string;
+  // Used until the server has generated renditions for this media
+  fallbackSrc: string;
+  className?: string;
+  loading?: "lazy" | "eager";
+}
+
+export default function ResponsiveImage({ media, sizes, fallbackSrc, className, loading }: ResponsiveImageProps) {
+  const webpSrcSet = renditionSrcSet(media, "webp");
+  const jpegSrcSet = renditionSrcSet(media, "jpeg");
+
+  if (!webpSrcSet || !jpegSrcSet) {
+    return <img src={fallbackSrc} alt={media.fileName} className={className} loading={loading} />;
+  }
+
+  return (
+    <picture className="contents">
+      <source type="image/webp" srcSet={webpSrcSet} sizes={sizes} />
+      <img
+        src={thumbnailUrl(media, 800, "jpeg")}
+        srcSet={jpegSrcSet}
+        sizes={sizes}
+        alt={media.fileName}
+        className={className}
+        loading={loading}
+      />
+    </picture>
+  );
+}
@@ -3,9 +3,35 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { Progress } from "@/components/ui/progress";
-import { CloudUpload } from "lucide-react";
+import { Camera, CloudUpload, CheckCircle2, Copy, AlertCircle, RotateCcw, WifiOff, X } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import { useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import CameraCapture from "@/components/CameraCapture";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { isOriginalsOnlyUploader, type GallerySettings, type UploadResult } from "@shared/schema";
+import { uploadFile, type UploadFields } from "@/lib/upload";
+import { optimizeImage, canOptimizeInBrowser } from "@/lib/compress";
+import { useOutbox } from "@/hooks/use-outbox";
+
+interface UploadItem {
+  key: string;
+  file: File;
+  status: 'pending' | 'optimizing' | 'uploading' | UploadResult['status'];
+  bytesSent: number;
+  message?: string;
+}
+
+function toUploadItems(files: File[]): UploadItem[] {
+  return files.map(file => ({
+    key: `${file.name}-${file.size}-${file.lastModified}-${Math.random()}`,
+    file,
+    status: 'pending',
+    bytesSent: 0,
+  }));
+}
 
 interface UploadSectionProps {
   isVisible: boolean;
@@ -13,12 +39,33 @@ interface UploadSectionProps {
 }
 
 export default function UploadSection({ isVisible, onCancel }: UploadSectionProps) {
-  const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
-  const [files, setFiles] = useState<File[]>([]);
+  const [items, setItems] = useState<UploadItem[]>([]);
+  // Remembered on this device so guests only type their name once
+  const [uploaderName, setUploaderName] = useState(() => localStorage.getItem('uploaderName') ?? '');
+  const [optimize, setOptimize] = useState(() => localStorage.getItem('optimizeUploads') !== 'false');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const outbox = useOutbox();
+  const pendingOffline = outbox.entries.filter(entry => entry.status === 'pending').length;
+
+  const { data: settings } = useQuery<GallerySettings>({
+    queryKey: ['/api/settings'],
+  });
+  const originalsOnly = !!settings && isOriginalsOnlyUploader(settings, uploaderName);
+  const canOptimize = !!settings?.compression.enabled && !originalsOnly && canOptimizeInBrowser();
+  const willOptimize = canOptimize && optimize;
+
+  const handleUploaderNameChange = (name: string) => {
+    setUploaderName(name);
+    localStorage.setItem('uploaderName', name);
+  };
+
+  const handleOptimizeChange = (checked: boolean) => {
+    setOptimize(checked);
+    localStorage.setItem('optimizeUploads', String(checked));
+  };
 
   const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -38,7 +85,7 @@ export default function UploadSection({ isVisible, onCancel }: UploadSectionProp
       });
       return;
     }
-    setFiles(mediaFiles);
+    addFiles(mediaFiles);
   };
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
@@ -46,12 +93,95 @@ export default function UploadSection({ isVisible, onCancel }: UploadSectionProp
     const selectedFiles = Array.from(e.target.files).filter(file =>
       file.type.startsWith("image/") || file.type.startsWith("video/")
     );
-    setFiles(selectedFiles);
+    addFiles(selectedFiles);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
   }
 };
 
+  // Picked and captured files share one list and go through the same upload
+  const addFiles = (files: File[]) => {
+    setItems(prev => [...prev, ...toUploadItems(files)]);
+  };
+
+  const handleCaptured = (file: File) => {
+    addFiles([file]);
+    toast({
+      title: "Added to upload",
+      description: `${file.name} is ready to add to the album.`
+    });
+  };
+
+  const removeItem = (key: string) => {
+    setItems(prev => prev.filter(item => item.key !== key));
+  };
+
+  const updateItem = (key: string, patch: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => item.key === key ? { ...item, ...patch } : item));
+  };
+
+  // The file to send for an item: an optimized copy when enabled and worth it
+  const prepareItem = async (item: UploadItem): Promise<{ file: File; fields: UploadFields }> => {
+    const name = uploaderName.trim() || undefined;
+    const optimized = willOptimize && settings
+      ? await optimizeImage(item.file, settings.compression)
+      : undefined;
+    return optimized
+      ? { file: optimized, fields: { uploaderName: name, optimized: true } }
+      : { file: item.file, fields: { uploaderName: name } };
+  };
+
+  // Moves items into the offline outbox; they show there until sent
+  const saveForLater = async (queued: UploadItem[]) => {
+    const uploads = [];
+    for (const item of queued) {
+      uploads.push(await prepareItem(item));
+    }
+    await outbox.enqueue(uploads);
+    const keys = new Set(queued.map(item => item.key));
+    setItems(prev => prev.filter(item => !keys.has(item.key)));
+  };
+
+  // Uploads one item, recording the server's verdict for it. "offline" means
+  // the connection dropped and the file went to the outbox instead.
+  const uploadItem = async (item: UploadItem): Promise<UploadItem['status'] | 'offline'> => {
+    updateItem(item.key, { status: 'optimizing', bytesSent: 0, message: undefined });
+    try {
+      const { file, fields } = await prepareItem(item);
+      updateItem(item.key, { status: 'uploading' });
+      // Progress is kept relative to the original so the totals add up
+      const result = await uploadFile(file, (bytesSent, bytesTotal) => {
+        updateItem(item.key, { bytesSent: Math.round((bytesSent / (bytesTotal || 1)) * item.file.size) });
+      }, fields);
+      updateItem(item.key, {
+        status: result.status,
+        bytesSent: item.file.size,
+        message: result.status === 'error' ? result.message : undefined,
+      });
+      return result.status;
+    } catch (error) {
+      if (!navigator.onLine) {
+        await saveForLater([item]);
+        return 'offline';
+      }
+      updateItem(item.key, {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Upload failed',
+      });
+      return 'error';
+    }
+  };
+
+  const handleRetry = async (item: UploadItem) => {
+    const status = await uploadItem(item);
+    if (status === 'success' || status === 'duplicate') {
+      queryClient.invalidateQueries({ queryKey: ['/api/media'] });
+    }
+  };
+
   const handleUpload = async () => {
-    if (files.length === 0) {
+    const queued = items.filter(item => item.status === 'pending' || item.status === 'error');
+    if (queued.length === 0) {
       toast({
         title: "No files to upload",
         description: "Please select or capture media files first.",
@@ -60,58 +190,69 @@ export default function UploadSection({ isVisible, onCancel }: UploadSectionProp
       return;
     }
 
-    setIsUploading(true);
-    const formData = new FormData();
-    files.forEach(file => {
-      formData.append('media', file);
-    });
-
-    try {
-      const interval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 95) {
-            clearInterval(interval);
-            return 95;
-          }
-          return prev + 5;
-        });
-      }, 150);
-
-      await fetch('/api/media/upload', {
-        method: 'POST',
-        body: formData,
-        credentials: 'include'
+    if (!navigator.onLine) {
+      await saveForLater(queued);
+      toast({
+        title: "Saved for later",
+        description: `No connection right now. ${queued.length} file(s) will upload automatically once you are back online.`
       });
+      onCancel();
+      return;
+    }
 
-      clearInterval(interval);
-      setUploadProgress(100);
+    setIsUploading(true);
+    const statuses: Awaited<ReturnType<typeof uploadItem>>[] = [];
+    // One at a time so a slow connection is not split across several files
+    for (const item of queued) {
+      statuses.push(await uploadItem(item));
+    }
+    setIsUploading(false);
 
-      toast({
-        title: "Upload successful",
-        description: `${files.length} media file(s) uploaded.`
-      });
+    const added = statuses.filter(status => status === 'success').length;
+    const duplicates = statuses.filter(status => status === 'duplicate').length;
+    const failed = statuses.filter(status => status === 'error').length;
+    const offline = statuses.filter(status => status === 'offline').length;
 
-      setTimeout(() => {
-        setFiles([]);
-        setUploadProgress(0);
-        setIsUploading(false);
-        onCancel();
-        queryClient.invalidateQueries({ queryKey: ['/api/media'] });
-      }, 1000);
+    if (added || duplicates) {
+      queryClient.invalidateQueries({ queryKey: ['/api/media'] });
+    }
 
-    } catch (error) {
-      console.error("Upload error:", error);
+    if (failed) {
+      // Stay open so the failed files can be retried
       toast({
-        title: "Upload failed",
-        description: "There was an error uploading your media. Please try again.",
+        title: failed === statuses.length ? "Upload failed" : "Some files were not added",
+        description: `${failed} of ${statuses.length} file(s) failed. You can retry them below.`,
         variant: "destructive"
       });
-      setIsUploading(false);
-      setUploadProgress(0);
+      return;
     }
+
+    toast({
+      title: "Upload successful",
+      description: `${added} media file(s) uploaded.` +
+        (duplicates ? ` ${duplicates} already in the gallery.` : '') +
+        (offline ? ` ${offline} will upload once you are back online.` : '')
+    });
+
+    setTimeout(() => {
+      setItems([]);
+      onCancel();
+    }, 1000);
   };
 
-  if (!isVisible) return null;
+  const totalBytes = items.reduce((sum, item) => sum + item.file.size, 0);
+  const sentBytes = items.reduce((sum, item) => sum + item.bytesSent, 0);
+  const uploadProgress = totalBytes ? Math.round((sentBytes / totalBytes) * 100) : 0;
+
+  if (!isVisible) {
+    if (!pendingOffline) return null;
+    return (
+      <div className="mb-6 flex items-center px-4 py-2 rounded-md bg-white border border-[#E8E8E8] text-sm text-[#4A697A] shadow-sm">
+        <WifiOff className="h-4 w-4 mr-2 shrink-0" />
+        {pendingOffline} file(s) waiting for a connection. They will upload automatically.
+      </div>
+    );
+  }
 
   return (
     <section className="mb-10">
@@ -119,40 +260,177 @@ export default function UploadSection({ isVisible, onCancel }: UploadSectionProp
         <CardContent className="p-6">
           <h2 className="text-2xl font-serif text-[#8B4513] mb-6">Add to the Album</h2>
           <div className="bg-[#F9F7F3] rounded-lg p-5 border border-[#E8E8E8]">
-            <h3 className="text-xl font-serif text-[#A67C52] mb-4">Upload Files</h3>
-            <div
-              onClick={() => fileInputRef.current?.click()}
-              onDragOver={handleDragOver}
-              onDrop={handleDrop}
-              className="border-2 border-dashed border-[#6B8E9E]/40 rounded-lg p-8 text-center cursor-pointer transition hover:border-[#6B8E9E]"
-            >
-              <div className="mb-4">
-                <CloudUpload className="h-12 w-12 mx-auto text-[#6B8E9E]" />
+            <div className="mb-4 grid gap-3 sm:grid-cols-2 sm:items-end">
+              <div>
+                <Label htmlFor="uploader-name" className="text-sm text-[#4A697A]">Your name (optional)</Label>
+                <Input
+                  id="uploader-name"
+                  value={uploaderName}
+                  maxLength={80}
+                  onChange={(e) => handleUploaderNameChange(e.target.value)}
+                  placeholder="So the couple knows who shared these"
+                  className="mt-1 bg-white"
+                />
               </div>
-              <p className="text-[#4A697A] mb-2">Tap to take or choose a file</p>
-              <Button className="px-4 py-2 bg-[#6B8E9E] text-white rounded-md hover:bg-[#4A697A] transition">
-                Browse / Camera
-              </Button>
-
-              {/* 👇 Eliminamos capture="environment" para que el menú nativo se muestre */}
-              <input
-                type="file"
-                accept="*/*"
-                className="hidden"
-                multiple
-                ref={fileInputRef}
-                onChange={handleFileChange}
-              />
-
-              <p className="text-xs text-[#333333]/60 mt-4">Image or video (max 50MB)</p>
+              {settings?.compression.enabled && (
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="optimize-uploads"
+                    checked={willOptimize}
+                    disabled={!canOptimize}
+                    onCheckedChange={(checked) => handleOptimizeChange(checked === true)}
+                  />
+                  <div className="text-sm leading-tight">
+                    <Label htmlFor="optimize-uploads" className="text-[#4A697A]">Optimize photos before upload</Label>
+                    <p className="text-xs text-[#333333]/60 mt-0.5">
+                      {originalsOnly
+                        ? "Originals only for this uploader."
+                        : `Saves data: photos are resized to ${settings.compression.maxDimension}px.`}
+                    </p>
+                  </div>
+                </div>
+              )}
             </div>
+            <Tabs defaultValue="files">
+              <TabsList className="mb-4 bg-[#E8E8E8]">
+                <TabsTrigger value="files">
+                  <CloudUpload className="h-4 w-4 mr-1.5" />
+                  Upload files
+                </TabsTrigger>
+                <TabsTrigger value="camera">
+                  <Camera className="h-4 w-4 mr-1.5" />
+                  Use camera
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="files" className="mt-0">
+                <div
+                  onClick={() => fileInputRef.current?.click()}
+                  onDragOver={handleDragOver}
+                  onDrop={handleDrop}
+                  className="border-2 border-dashed border-[#6B8E9E]/40 rounded-lg p-8 text-center cursor-pointer transition hover:border-[#6B8E9E]"
+                >
+                  <div className="mb-4">
+                    <CloudUpload className="h-12 w-12 mx-auto text-[#6B8E9E]" />
+                  </div>
+                  <p className="text-[#4A697A] mb-2">Tap to take or choose a file</p>
+                  <Button className="px-4 py-2 bg-[#6B8E9E] text-white rounded-md hover:bg-[#4A697A] transition">
+                    Browse / Camera
+                  </Button>
+
+                  {/* 👇 Eliminamos capture="environment" para que el menú nativo se muestre */}
+                  <input
+                    type="file"
+                    accept="*/*"
+                    className="hidden"
+                    multiple
+                    ref={fileInputRef}
+                    onChange={handleFileChange}
+                  />
+
+                  <p className="text-xs text-[#333333]/60 mt-4">Image or video (max 50MB)</p>
+                </div>
+              </TabsContent>
+              {/* Unmounted while hidden, which also turns the camera off */}
+              <TabsContent value="camera" className="mt-0">
+                <CameraCapture onMediaCaptured={handleCaptured} />
+              </TabsContent>
+            </Tabs>
+
+            {items.length > 0 && (
+              <div className="mt-4">
+                <p className="text-sm font-medium">{items.length} file(s) selected</p>
+                <ul className="mt-2 text-xs text-[#333333]/70 max-h-48 overflow-y-auto divide-y divide-[#E8E8E8]">
+                  {items.map(item => (
+                    <li key={item.key} className="py-1.5">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate">{item.file.name}</span>
+                        {item.status === 'pending' && (
+                          <span className="shrink-0 inline-flex items-center gap-2">
+                            Waiting
+                            <button
+                              onClick={() => removeItem(item.key)}
+                              disabled={isUploading}
+                              className="text-[#333333]/60 hover:text-[#333333] disabled:opacity-50"
+                              aria-label={`Remove ${item.file.name}`}
+                            >
+                              <X className="h-3.5 w-3.5" />
+                            </button>
+                          </span>
+                        )}
+                        {item.status === 'optimizing' && <span className="shrink-0">Optimizing…</span>}
+                        {item.status === 'uploading' && (
+                          <span className="shrink-0">{Math.round((item.bytesSent / (item.file.size || 1)) * 100)}%</span>
+                        )}
+                        {item.status === 'success' && (
+                          <span className="shrink-0 inline-flex items-center text-green-700">
+                            <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
+                            Added
+                          </span>
+                        )}
+                        {item.status === 'duplicate' && (
+                          <span className="shrink-0 inline-flex items-center text-[#4A697A]">
+                            <Copy className="h-3.5 w-3.5 mr-1" />
+                            Already in the album
+                          </span>
+                        )}
+                        {item.status === 'error' && (
+                          <button
+                            onClick={() => handleRetry(item)}
+                            disabled={isUploading}
+                            className="shrink-0 inline-flex items-center text-[#8B4513] hover:underline disabled:opacity-50"
+                          >
+                            <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                            Retry
+                          </button>
+                        )}
+                      </div>
+                      {item.status === 'uploading' && (
+                        <Progress
+                          value={Math.round((item.bytesSent / (item.file.size || 1)) * 100)}
+                          className="h-1 mt-1 bg-[#E8E8E8]"
+                        />
+                      )}
+                      {item.status === 'error' && item.message && (
+                        <p className="mt-0.5 inline-flex items-center text-red-600">
+                          <AlertCircle className="h-3.5 w-3.5 mr-1 shrink-0" />
+                          {item.message}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
 
-            {files.length > 0 && (
+            {outbox.entries.length > 0 && (
               <div className="mt-4">
-                <p className="text-sm font-medium">{files.length} file selected</p>
-                <ul className="mt-2 text-xs text-[#333333]/70 max-h-20 overflow-y-auto">
-                  {files.map((file, index) => (
-                    <li key={index} className="truncate">{file.name}</li>
+                <p className="text-sm font-medium inline-flex items-center">
+                  <WifiOff className="h-4 w-4 mr-1.5" />
+                  Waiting to upload
+                </p>
+                <ul className="mt-2 text-xs text-[#333333]/70 max-h-32 overflow-y-auto divide-y divide-[#E8E8E8]">
+                  {outbox.entries.map(entry => (
+                    <li key={entry.id} className="py-1.5">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate">{entry.name}</span>
+                        <span className="shrink-0 inline-flex items-center gap-2">
+                          {entry.status === 'pending' ? 'Pending' : 'Not accepted'}
+                          <button
+                            onClick={() => outbox.remove(entry.id)}
+                            className="text-[#333333]/60 hover:text-[#333333]"
+                            aria-label={`Remove ${entry.name} from the queue`}
+                          >
+                            <X className="h-3.5 w-3.5" />
+                          </button>
+                        </span>
+                      </div>
+                      {entry.message && (
+                        <p className="mt-0.5 inline-flex items-center text-red-600">
+                          <AlertCircle className="h-3.5 w-3.5 mr-1 shrink-0" />
+                          {entry.message}
+                        </p>
+                      )}
+                    </li>
                   ))}
                 </ul>
               </div>
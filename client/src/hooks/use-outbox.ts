@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  addToOutbox,
+  drainOutbox,
+  listOutbox,
+  onOutboxChange,
+  removeFromOutbox,
+  requestOutboxSync,
+  type OutboxEntry,
+  type OutboxUpload,
+} from "@/lib/outbox";
+import { uploadFile } from "@/lib/upload";
+
+// Offline upload queue: lists what is waiting and sends it whenever the
+// page is (or comes back) online
+export function useOutbox() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const queryClient = useQueryClient();
+
+  const refresh = useCallback(() => {
+    listOutbox()
+      .then(setEntries)
+      .catch(error => console.error("Error reading upload outbox:", error));
+  }, []);
+
+  const drain = useCallback(() => {
+    drainOutbox((file, fields) => uploadFile(file, () => {}, fields))
+      .catch(error => console.error("Error sending upload outbox:", error));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    // Entries leave the outbox as they are uploaded, here or by the service worker
+    const unsubscribe = onOutboxChange(() => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ['/api/media'] });
+    });
+
+    if (navigator.onLine) drain();
+    window.addEventListener('online', drain);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', drain);
+    };
+  }, [refresh, drain, queryClient]);
+
+  const enqueue = useCallback(async (uploads: OutboxUpload[]) => {
+    await addToOutbox(uploads);
+    await requestOutboxSync();
+  }, []);
+
+  return { entries, enqueue, remove: removeFromOutbox };
+}
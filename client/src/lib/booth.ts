@@ -0,0 +1,78 @@
+import type { BoothFrame } from "@shared/schema";
+
+export type BoothLayout = "single" | "burst" | "strip";
+
+export const BOOTH_LAYOUTS: Record<BoothLayout, string> = {
+  single: "Single photo",
+  burst: "Burst of 4",
+  strip: "Photo strip",
+};
+
+// Shots taken for a burst or a strip
+export const BOOTH_SHOTS = 4;
+
+export const COUNTDOWN_SECONDS = [0, 3, 5, 10];
+
+export function boothFrameUrl(frame: BoothFrame): string {
+  return `/api/booth/frames/${frame.id}`;
+}
+
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load ${url}`));
+    image.src = url;
+  });
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Frames are stretched over the whole picture, so they look best designed at
+// the layout's shape (landscape for single shots, tall for strips)
+export function drawOverlay(canvas: HTMLCanvasElement, overlay: HTMLImageElement) {
+  canvas.getContext("2d")?.drawImage(overlay, 0, 0, canvas.width, canvas.height);
+}
+
+// Stacks the shots on a white card like a printed booth strip, with the
+// caption underneath
+export function composeStrip(shots: HTMLCanvasElement[], caption: string): HTMLCanvasElement {
+  const width = Math.min(shots[0].width, 1200);
+  const shotHeight = Math.round((shots[0].height / shots[0].width) * width);
+  const margin = Math.round(width * 0.05);
+  const footer = caption ? Math.round(width * 0.2) : margin;
+
+  const strip = document.createElement("canvas");
+  strip.width = width + margin * 2;
+  strip.height = margin + shots.length * (shotHeight + margin) + footer - margin;
+
+  const context = strip.getContext("2d");
+  if (!context) return strip;
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, strip.width, strip.height);
+  shots.forEach((shot, index) => {
+    context.drawImage(shot, margin, margin + index * (shotHeight + margin), width, shotHeight);
+  });
+
+  if (caption) {
+    context.fillStyle = "#8B4513";
+    context.font = `${Math.round(width * 0.07)}px Georgia, serif`;
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    context.fillText(caption, strip.width / 2, strip.height - footer / 2, width);
+  }
+  return strip;
+}
+
+export function canvasToJpeg(canvas: HTMLCanvasElement, quality = 0.95): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the photo"))),
+      "image/jpeg",
+      quality,
+    );
+  });
+}
@@ -0,0 +1,86 @@
+export type FacingMode = "user" | "environment";
+
+export const RESOLUTION_PRESETS = {
+  hd: { label: "720p", width: 1280, height: 720 },
+  fullHd: { label: "1080p", width: 1920, height: 1080 },
+  uhd: { label: "4K", width: 3840, height: 2160 },
+} as const;
+
+export type ResolutionPreset = keyof typeof RESOLUTION_PRESETS;
+
+export interface CameraPreferences {
+  facingMode: FacingMode;
+  // A specific camera picked from the list; wins over facingMode while it exists
+  deviceId?: string;
+  resolution: ResolutionPreset;
+}
+
+const PREFERENCES_KEY = "cameraPreferences";
+
+const defaultPreferences: CameraPreferences = { facingMode: "environment", resolution: "fullHd" };
+
+export function loadCameraPreferences(): CameraPreferences {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PREFERENCES_KEY) ?? "{}");
+    return {
+      facingMode: saved.facingMode === "user" ? "user" : "environment",
+      deviceId: typeof saved.deviceId === "string" ? saved.deviceId : undefined,
+      resolution: saved.resolution in RESOLUTION_PRESETS ? saved.resolution : defaultPreferences.resolution,
+    };
+  } catch {
+    return defaultPreferences;
+  }
+}
+
+export function saveCameraPreferences(preferences: CameraPreferences) {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+}
+
+// `ideal` rather than `exact` so cameras that cannot reach the preset still
+// open at their closest size instead of failing
+export function videoConstraints({ facingMode, deviceId, resolution }: CameraPreferences): MediaTrackConstraints {
+  const { width, height } = RESOLUTION_PRESETS[resolution];
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: { ideal: facingMode } }),
+    width: { ideal: width },
+    height: { ideal: height },
+  };
+}
+
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "videoinput");
+}
+
+// Torch and zoom come from the Image Capture spec and are missing from the DOM typings
+interface ExtendedCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step?: number };
+}
+
+export interface TrackControls {
+  torch: boolean;
+  zoom?: { min: number; max: number; step: number; value: number };
+}
+
+export function trackControls(track: MediaStreamTrack): TrackControls {
+  const capabilities = (track.getCapabilities?.() ?? {}) as ExtendedCapabilities;
+  const settings = track.getSettings() as MediaTrackSettings & { zoom?: number };
+  const zoom = capabilities.zoom;
+  return {
+    torch: capabilities.torch === true,
+    zoom:
+      zoom && zoom.max > zoom.min
+        ? { min: zoom.min, max: zoom.max, step: zoom.step || 0.1, value: settings.zoom ?? zoom.min }
+        : undefined,
+  };
+}
+
+export function applyTorch(track: MediaStreamTrack, on: boolean): Promise<void> {
+  return track.applyConstraints({ advanced: [{ torch: on } as MediaTrackConstraintSet] });
+}
+
+export function applyZoom(track: MediaStreamTrack, zoom: number): Promise<void> {
+  return track.applyConstraints({ advanced: [{ zoom } as MediaTrackConstraintSet] });
+}
@@ -0,0 +1,79 @@
+import type { GallerySettings } from "@shared/schema";
+import type { CompressRequest, CompressResponse } from "@/workers/compress.worker";
+
+type CompressionOptions = Pick<GallerySettings["compression"], "maxDimension" | "quality">;
+
+// Below this the saving is not worth a visible loss of quality
+const MIN_SAVING = 0.1;
+
+// A photo takes a second or two; far longer means the worker is stuck
+const REQUEST_TIMEOUT_MS = 30_000;
+
+let worker: Worker | undefined;
+let nextRequestId = 0;
+const pending = new Map<number, (response: CompressResponse) => void>();
+
+// Answers every waiting request with an error, so their files go up as
+// originals, and drops the worker so the next request starts a fresh one
+function failWorker(error: string) {
+  worker?.terminate();
+  worker = undefined;
+  pending.forEach((respond, id) => respond({ id, error }));
+  pending.clear();
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("../workers/compress.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<CompressResponse>) => {
+      pending.get(event.data.id)?.(event.data);
+      pending.delete(event.data.id);
+    };
+    // Fires when the script fails to load (no module workers, CSP) or crashes
+    worker.onerror = (event) => {
+      event.preventDefault();
+      failWorker(event.message || "The optimizing worker failed");
+    };
+    worker.onmessageerror = () => failWorker("Could not read the optimizing worker's reply");
+  }
+  return worker;
+}
+
+export function canOptimizeInBrowser(): boolean {
+  return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+}
+
+// Still images the browser can re-encode; animated GIFs would lose their animation
+export function isOptimizable(file: File): boolean {
+  return file.type.startsWith("image/") && file.type !== "image/gif" && file.type !== "image/svg+xml";
+}
+
+// A resized JPEG copy of `file`, or undefined when the browser cannot decode
+// it (e.g. HEIC outside Safari) or the copy would not be meaningfully smaller
+export async function optimizeImage(file: File, options: CompressionOptions): Promise<File | undefined> {
+  if (!canOptimizeInBrowser() || !isOptimizable(file)) return undefined;
+
+  const id = nextRequestId++;
+  const response = await new Promise<CompressResponse>((resolve) => {
+    const timeout = setTimeout(() => failWorker("Optimizing timed out"), REQUEST_TIMEOUT_MS);
+    pending.set(id, (response) => {
+      clearTimeout(timeout);
+      resolve(response);
+    });
+    const request: CompressRequest = { id, file, ...options };
+    try {
+      getWorker().postMessage(request);
+    } catch (error) {
+      failWorker(error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  if ("error" in response) {
+    console.warn(`Could not optimize ${file.name}, uploading the original:`, response.error);
+    return undefined;
+  }
+  if (response.blob.size > file.size * (1 - MIN_SAVING)) return undefined;
+
+  const name = file.name.replace(/\.[^.]+$/, "") + ".jpg";
+  return new File([response.blob], name, { type: "image/jpeg", lastModified: file.lastModified });
+}
@@ -0,0 +1,120 @@
+// Writes a minimal EXIF block into a JPEG: enough to keep when and with
+// what a photo was taken after the browser re-encodes it. GPS and every
+// other tag are left out on purpose.
+
+export interface ExifFields {
+  make?: string;
+  model?: string;
+  // EXIF date format, "YYYY:MM:DD HH:MM:SS"
+  dateTimeOriginal?: string;
+  // "+HH:MM"
+  offsetTimeOriginal?: string;
+}
+
+const ASCII = 2;
+const LONG = 4;
+
+interface Entry {
+  tag: number;
+  type: typeof ASCII | typeof LONG;
+  value: string | number;
+}
+
+function asciiBytes(value: string): Uint8Array {
+  return new TextEncoder().encode(`${value}\0`);
+}
+
+function entrySize(entries: Entry[]): number {
+  return 2 + entries.length * 12 + 4;
+}
+
+// Out-of-line data needed by an IFD: ASCII values over 4 bytes
+function dataSize(entries: Entry[]): number {
+  return entries.reduce((sum, entry) => {
+    const length = entry.type === ASCII ? asciiBytes(entry.value as string).length : 4;
+    return length > 4 ? sum + length + (length % 2) : sum;
+  }, 0);
+}
+
+// Writes one IFD at `offset` with its data right after it; returns the end offset
+function writeIfd(view: DataView, bytes: Uint8Array, offset: number, entries: Entry[]): number {
+  let dataOffset = offset + entrySize(entries);
+  view.setUint16(offset, entries.length, true);
+
+  entries.forEach((entry, index) => {
+    const position = offset + 2 + index * 12;
+    view.setUint16(position, entry.tag, true);
+    view.setUint16(position + 2, entry.type, true);
+
+    if (entry.type === LONG) {
+      view.setUint32(position + 4, 1, true);
+      view.setUint32(position + 8, entry.value as number, true);
+      return;
+    }
+
+    const value = asciiBytes(entry.value as string);
+    view.setUint32(position + 4, value.length, true);
+    if (value.length <= 4) {
+      bytes.set(value, position + 8);
+    } else {
+      view.setUint32(position + 8, dataOffset, true);
+      bytes.set(value, dataOffset);
+      dataOffset += value.length + (value.length % 2);
+    }
+  });
+
+  // No further IFD in the chain
+  view.setUint32(offset + 2 + entries.length * 12, 0, true);
+  return dataOffset;
+}
+
+// Little-endian TIFF structure with IFD0 (camera) pointing at the Exif IFD (dates)
+function buildTiff(fields: ExifFields): Uint8Array | undefined {
+  const exifEntries: Entry[] = [];
+  if (fields.dateTimeOriginal) {
+    exifEntries.push({ tag: 0x9003, type: ASCII, value: fields.dateTimeOriginal });
+    exifEntries.push({ tag: 0x9004, type: ASCII, value: fields.dateTimeOriginal });
+  }
+  if (fields.offsetTimeOriginal) {
+    exifEntries.push({ tag: 0x9011, type: ASCII, value: fields.offsetTimeOriginal });
+  }
+
+  const ifd0Entries: Entry[] = [];
+  if (fields.make) ifd0Entries.push({ tag: 0x010f, type: ASCII, value: fields.make });
+  if (fields.model) ifd0Entries.push({ tag: 0x0110, type: ASCII, value: fields.model });
+  if (!ifd0Entries.length && !exifEntries.length) return undefined;
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + entrySize(ifd0Entries) + 12 + dataSize(ifd0Entries);
+  if (exifEntries.length) {
+    ifd0Entries.push({ tag: 0x8769, type: LONG, value: exifOffset });
+  }
+
+  const length = exifOffset + (exifEntries.length ? entrySize(exifEntries) + dataSize(exifEntries) : 0);
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49, 0x2a, 0x00]);
+  view.setUint32(4, ifd0Offset, true);
+
+  writeIfd(view, bytes, ifd0Offset, ifd0Entries);
+  if (exifEntries.length) {
+    writeIfd(view, bytes, exifOffset, exifEntries);
+  }
+  return bytes;
+}
+
+// Returns `jpeg` with an APP1 Exif segment holding `fields` right after the
+// start-of-image marker
+export async function withExif(jpeg: Blob, fields: ExifFields): Promise<Blob> {
+  const tiff = buildTiff(fields);
+  if (!tiff) return jpeg;
+
+  const header = new Uint8Array(10);
+  const headerView = new DataView(header.buffer);
+  header.set([0xff, 0xe1]);
+  headerView.setUint16(2, 2 + 6 + tiff.length);
+  header.set(new TextEncoder().encode("Exif"), 4);
+
+  const soi = jpeg.slice(0, 2);
+  return new Blob([soi, header, tiff, jpeg.slice(2)], { type: "image/jpeg" });
+}
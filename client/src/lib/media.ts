@@ -0,0 +1,112 @@
+import type { MediaFile, MediaPage, MediaSort, Rendition, RenditionFormat } from "@shared/schema";
+import { hammingDistance, SIMILARITY_THRESHOLD } from "@shared/phash";
+import { apiRequest } from "./queryClient";
+
+// Query string of GET /api/media; the server fills in the defaults
+export interface MediaListParams {
+  type?: "image" | "video";
+  sort?: MediaSort;
+  order?: "asc" | "desc";
+  from?: string;
+  to?: string;
+  uploader?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export async function fetchMediaPage(params: MediaListParams): Promise<MediaPage> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") search.set(key, String(value));
+  }
+  const res = await apiRequest("GET", `/api/media?${search}`);
+  return res.json();
+}
+
+export function getRenditions(media: MediaFile): Rendition[] {
+  return media.metadata?.renditions ?? [];
+}
+
+export function thumbnailUrl(media: MediaFile, size: number, format?: RenditionFormat): string {
+  const params = new URLSearchParams({ size: String(size) });
+  if (format) params.set("format", format);
+  // Lets the server cache the URL for good: it names these exact bytes
+  if (media.contentHash) params.set("v", media.contentHash);
+  return `/api/media/${media.id}/thumbnail?${params}`;
+}
+
+// srcset entries use each rendition's real width, which is smaller than its
+// target for originals that were never that wide.
+export function renditionSrcSet(media: MediaFile, format: RenditionFormat): string | undefined {
+  const byWidth = new Map<number, Rendition>();
+  getRenditions(media)
+    .filter((rendition) => rendition.format === format)
+    .sort((a, b) => a.target - b.target)
+    .forEach((rendition) => {
+      // Small originals produce several identical renditions; list each width once
+      if (!byWidth.has(rendition.width)) byWidth.set(rendition.width, rendition);
+    });
+
+  const entries = Array.from(byWidth.values()).map(
+    (rendition) => `${thumbnailUrl(media, rendition.target, format)} ${rendition.width}w`,
+  );
+  return entries.length ? entries.join(", ") : undefined;
+}
+
+// When the photo or video was taken, falling back to when it was uploaded.
+// Capture times without a UTC offset are read as local time, as the camera showed them.
+export function takenAt(media: MediaFile): Date {
+  const captured = media.metadata?.capture?.capturedAt;
+  if (captured) {
+    const date = new Date(captured);
+    if (!Number.isNaN(date.getTime())) return date;
+  }
+  return new Date(media.uploadDate);
+}
+
+export function cameraName(media: MediaFile): string | undefined {
+  const { make, model } = media.metadata?.capture ?? {};
+  if (!model) return make;
+  // Most cameras repeat the make in the model ("Canon" / "Canon EOS R6")
+  return make && !model.toLowerCase().startsWith(make.toLowerCase()) ? `${make} ${model}` : model;
+}
+
+export interface MediaStack {
+  // The sharpest shot, shown in place of the whole stack
+  cover: MediaFile;
+  members: MediaFile[];
+}
+
+// Collapses near-identical shots into stacks, keeping the order of each
+// stack's first member. A shot joins a stack when it is close to any member,
+// so a burst that drifts frame by frame still ends up together.
+export function stackSimilar(items: MediaFile[]): MediaStack[] {
+  const stacks: MediaFile[][] = [];
+  for (const item of items) {
+    const hash = item.metadata?.perceptual?.dHash;
+    const stack = hash
+      ? stacks.find((members) =>
+          members.some((member) => {
+            const other = member.metadata?.perceptual?.dHash;
+            return other !== undefined && hammingDistance(hash, other) <= SIMILARITY_THRESHOLD;
+          }),
+        )
+      : undefined;
+
+    if (stack) {
+      stack.push(item);
+    } else {
+      stacks.push([item]);
+    }
+  }
+
+  return stacks.map((members) => ({
+    cover: members.reduce((best, member) =>
+      (member.metadata?.perceptual?.sharpness ?? -Infinity) >
+      (best.metadata?.perceptual?.sharpness ?? -Infinity)
+        ? member
+        : best,
+    ),
+    members,
+  }));
+}
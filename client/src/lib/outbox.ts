@@ -0,0 +1,172 @@
+import type { UploadResult } from "@shared/schema";
+import { UploadRejectedError, type UploadFields } from "./upload";
+
+// Files waiting for a connection, kept in IndexedDB so they survive the tab
+// closing. client/public/sw.js reads and drains the same store during
+// Background Sync; keep the names below in step with it.
+const DB_NAME = "wedding-gallery";
+const DB_VERSION = 1;
+const STORE = "outbox";
+export const OUTBOX_SYNC_TAG = "upload-outbox";
+// Held while draining, so the page and the service worker never send the same entry
+const OUTBOX_LOCK = "upload-outbox";
+const CHANGE_CHANNEL = "upload-outbox";
+
+export interface OutboxEntry {
+  // SHA-256 of the file, so adding the same file twice keeps one entry
+  id: string;
+  file: Blob;
+  name: string;
+  type: string;
+  lastModified: number;
+  fields: UploadFields;
+  addedAt: number;
+  // "failed" entries were refused by the server and are kept to show why
+  status: "pending" | "failed";
+  message?: string;
+}
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function notifyChange() {
+  const channel = new BroadcastChannel(CHANGE_CHANNEL);
+  channel.postMessage("changed");
+  channel.close();
+}
+
+export async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const entries = await withStore("readonly", (store) => store.getAll() as IDBRequest<OutboxEntry[]>);
+  return entries.sort((a, b) => a.addedAt - b.addedAt);
+}
+
+export interface OutboxUpload {
+  file: File;
+  fields: UploadFields;
+}
+
+export async function addToOutbox(uploads: OutboxUpload[]) {
+  for (const { file, fields } of uploads) {
+    const entry: OutboxEntry = {
+      id: await hashBlob(file),
+      file,
+      name: file.name,
+      type: file.type,
+      lastModified: file.lastModified,
+      fields,
+      addedAt: Date.now(),
+      status: "pending",
+    };
+    await withStore("readwrite", (store) => store.put(entry));
+  }
+  notifyChange();
+}
+
+export async function removeFromOutbox(id: string) {
+  await withStore("readwrite", (store) => store.delete(id));
+  notifyChange();
+}
+
+async function markFailed(entry: OutboxEntry, message: string) {
+  await withStore("readwrite", (store) => store.put({ ...entry, status: "failed", message }));
+  notifyChange();
+}
+
+// Calls `listener` whenever this tab, another tab or the service worker
+// changes the outbox
+export function onOutboxChange(listener: () => void): () => void {
+  const channel = new BroadcastChannel(CHANGE_CHANNEL);
+  channel.onmessage = listener;
+  return () => channel.close();
+}
+
+// Asks the service worker to drain the outbox once a connection is back,
+// even if the page is closed by then. Browsers without Background Sync rely
+// on the page draining it when it comes back online.
+export async function requestOutboxSync() {
+  if (!("serviceWorker" in navigator)) return;
+  const registration: SyncRegistration = await navigator.serviceWorker.ready;
+  await registration.sync?.register(OUTBOX_SYNC_TAG).catch(() => undefined);
+}
+
+async function alreadyUploaded(id: string): Promise<boolean> {
+  const response = await fetch(`/api/media/by-hash/${id}`, { credentials: "include" });
+  return response.ok;
+}
+
+type OutboxUploader = (file: File, fields: UploadFields) => Promise<UploadResult>;
+
+async function drainPending(upload: OutboxUploader): Promise<UploadResult[]> {
+  const results: UploadResult[] = [];
+  for (const entry of await listOutbox()) {
+    if (entry.status !== "pending") continue;
+
+    try {
+      if (await alreadyUploaded(entry.id)) {
+        await removeFromOutbox(entry.id);
+        continue;
+      }
+
+      const file = new File([entry.file], entry.name, { type: entry.type, lastModified: entry.lastModified });
+      const result = await upload(file, entry.fields ?? {});
+      results.push(result);
+      if (result.status === "error") {
+        await markFailed(entry, result.message);
+      } else {
+        await removeFromOutbox(entry.id);
+      }
+    } catch (error) {
+      if (!(error instanceof UploadRejectedError)) break;
+      results.push({ fileName: entry.name, status: "error", message: error.message });
+      await markFailed(entry, error.message);
+    }
+  }
+  return results;
+}
+
+// Uploads pending entries one by one with `upload`, returning their results.
+// Stops at the first network failure or server error, leaving the rest for the
+// next attempt; a file the server turns down is marked failed and the rest
+// carry on.
+// Does nothing when the service worker or another tab is already draining.
+export async function drainOutbox(upload: OutboxUploader): Promise<UploadResult[]> {
+  // Without Web Locks the server's content-hash check still stops double copies
+  if (!navigator.locks) return drainPending(upload);
+
+  return navigator.locks.request(OUTBOX_LOCK, { ifAvailable: true }, (lock) =>
+    lock ? drainPending(upload) : [],
+  );
+}
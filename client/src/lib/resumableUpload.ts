@@ -0,0 +1,62 @@
+import * as tus from "tus-js-client";
+import type { UploadResult } from "@shared/schema";
+import { UploadRejectedError, type UploadFields } from "./upload";
+
+// Files above this size go through the resumable endpoint; smaller ones are
+// cheaper to resend whole than to split into chunks
+export const RESUMABLE_THRESHOLD_BYTES = 10 * 1024 * 1024;
+
+const CHUNK_SIZE = 5 * 1024 * 1024;
+
+// Uploads one file in chunks through the tus endpoint. Network errors are
+// retried with backoff, an upload interrupted by going offline picks up again
+// when the connection returns, and reopening the page resumes unfinished
+// uploads of the same file.
+export function uploadResumable(
+  file: File,
+  onProgress: (bytesSent: number, bytesTotal: number) => void,
+  fields: UploadFields = {},
+): Promise<UploadResult> {
+  return new Promise((resolve, reject) => {
+    const resumeWhenOnline = () => upload.start();
+
+    const upload = new tus.Upload(file, {
+      endpoint: "/api/uploads",
+      chunkSize: CHUNK_SIZE,
+      retryDelays: [0, 1000, 3000, 5000, 10000, 20000, 30000],
+      metadata: {
+        filename: file.name,
+        filetype: file.type,
+        ...(fields.uploaderName ? { uploader: fields.uploaderName } : {}),
+        ...(fields.optimized ? { optimized: "1" } : {}),
+      },
+      removeFingerprintOnSuccess: true,
+      onProgress,
+      onError: (error) => {
+        if (!navigator.onLine) {
+          window.addEventListener("online", resumeWhenOnline, { once: true });
+          return;
+        }
+        const status = error instanceof tus.DetailedError ? error.originalResponse?.getStatus() : undefined;
+        reject(status && status >= 400 && status < 500 ? new UploadRejectedError(error.message) : error);
+      },
+      onSuccess: async () => {
+        try {
+          const response = await fetch(upload.url!, { credentials: "include" });
+          const { result } = await response.json();
+          resolve(result);
+        } catch (error) {
+          reject(error);
+        }
+      },
+    });
+
+    upload
+      .findPreviousUploads()
+      .then((previousUploads) => {
+        if (previousUploads.length) upload.resumeFromPreviousUpload(previousUploads[0]);
+        upload.start();
+      })
+      .catch(reject);
+  });
+}
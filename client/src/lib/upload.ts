@@ -0,0 +1,69 @@
+import type { UploadResult } from "@shared/schema";
+import { uploadResumable, RESUMABLE_THRESHOLD_BYTES } from "./resumableUpload";
+
+// The server turned the file down (a 4xx), as opposed to a network failure or
+// a server error, which are worth retrying
+export class UploadRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadRejectedError";
+  }
+}
+
+export type UploadProgressHandler = (bytesSent: number, bytesTotal: number) => void;
+
+// Sent along with each file
+export interface UploadFields {
+  uploaderName?: string;
+  // The file is a browser-optimized copy rather than the original
+  optimized?: boolean;
+}
+
+// Multipart upload of one file. XHR rather than fetch because only XHR
+// reports how much of the request body has been sent.
+function uploadMultipart(file: File, onProgress: UploadProgressHandler, fields: UploadFields): Promise<UploadResult> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "/api/media/upload");
+    xhr.withCredentials = true;
+    xhr.responseType = "json";
+
+    xhr.upload.onprogress = (event) => {
+      // `total` includes the multipart framing, so scale to the file's own size
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * file.size), file.size);
+      }
+    };
+    xhr.onload = () => {
+      const body: { message?: string; results?: UploadResult[] } | null = xhr.response;
+      const result = body?.results?.[0];
+      const message = body?.message || `Upload failed with status ${xhr.status}`;
+      if (xhr.status >= 200 && xhr.status < 300 && result) {
+        resolve(result);
+      } else if (xhr.status >= 400 && xhr.status < 500) {
+        reject(new UploadRejectedError(message));
+      } else {
+        reject(new Error(message));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Network error, check your connection"));
+
+    const formData = new FormData();
+    if (fields.uploaderName) formData.append("uploaderName", fields.uploaderName);
+    if (fields.optimized) formData.append("optimized", "1");
+    formData.append("media", file);
+    xhr.send(formData);
+  });
+}
+
+// Uploads one file, resumably when it is large. Failures the server reports
+// for the file come back as an error result; transport failures reject.
+export function uploadFile(
+  file: File,
+  onProgress: UploadProgressHandler,
+  fields: UploadFields = {},
+): Promise<UploadResult> {
+  return file.size > RESUMABLE_THRESHOLD_BYTES
+    ? uploadResumable(file, onProgress, fields)
+    : uploadMultipart(file, onProgress, fields);
+}
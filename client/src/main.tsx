@@ -2,4 +2,11 @@ import { createRoot } from "react-dom/client";
 import App from "./App";
 import "./index.css";
 
+// The service worker uploads files queued while offline (see lib/outbox.ts)
+if ("serviceWorker" in navigator) {
+  navigator.serviceWorker.register("/sw.js").catch((error) => {
+    console.error("Service worker registration failed:", error);
+  });
+}
+
 createRoot(document.getElementById("root")!).render(<App />);
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useQueryClient } from "@tanstack/react-query";
+import { Maximize, Minimize, ArrowLeft } from "lucide-react";
+import CameraCapture from "@/components/CameraCapture";
+import { useToast } from "@/hooks/use-toast";
+import { useOutbox } from "@/hooks/use-outbox";
+import { uploadFile, type UploadFields } from "@/lib/upload";
+
+// Shown as the uploader of every booth photo
+const BOOTH_FIELDS: UploadFields = { uploaderName: 'Photo booth' };
+
+// Kiosk page for a tablet on a stand: guests pose, review and every kept
+// shot goes straight to the album
+export default function Booth() {
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const outbox = useOutbox();
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleChange);
+
+    // Keep the tablet from dimming between guests
+    let wakeLock: WakeLockSentinel | undefined;
+    const requestWakeLock = () => {
+      if (document.visibilityState !== 'visible') return;
+      navigator.wakeLock?.request('screen')
+        .then(lock => { wakeLock = lock; })
+        .catch(() => {});
+    };
+    requestWakeLock();
+    // The lock is released whenever the page is hidden
+    document.addEventListener('visibilitychange', requestWakeLock);
+
+    return () => {
+      document.removeEventListener('fullscreenchange', handleChange);
+      document.removeEventListener('visibilitychange', requestWakeLock);
+      wakeLock?.release().catch(() => {});
+    };
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    } else {
+      document.documentElement.requestFullscreen().catch(() => {});
+    }
+  };
+
+  const handleCaptured = async (file: File) => {
+    try {
+      const result = await uploadFile(file, () => {}, BOOTH_FIELDS);
+      if (result.status === 'error') {
+        throw new Error(result.message);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/media'] });
+      toast({ title: "Saved to the album!" });
+    } catch (error) {
+      if (!navigator.onLine) {
+        await outbox.enqueue([{ file, fields: BOOTH_FIELDS }]);
+        toast({ title: "Saved", description: "It will reach the album once the connection is back." });
+        return;
+      }
+      toast({
+        title: "Could not save the photo",
+        description: error instanceof Error ? error.message : 'Upload failed',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F9F7F3] flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3">
+        {!isFullscreen ? (
+          <Link href="/" className="inline-flex items-center text-sm text-[#4A697A] hover:underline">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Gallery
+          </Link>
+        ) : <span />}
+        <h1 className="text-3xl font-serif text-[#8B4513]">Photo Booth</h1>
+        <button
+          onClick={toggleFullscreen}
+          className="p-2 rounded-md text-[#4A697A] hover:bg-[#E8E8E8]"
+          aria-label={isFullscreen ? "Leave full screen" : "Full screen"}
+        >
+          {isFullscreen ? <Minimize className="h-5 w-5" /> : <Maximize className="h-5 w-5" />}
+        </button>
+      </div>
+      <main className="flex-1 container mx-auto px-4 pb-4">
+        <CameraCapture kiosk onMediaCaptured={handleCaptured} />
+      </main>
+    </div>
+  );
+}
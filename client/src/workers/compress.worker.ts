@@ -0,0 +1,55 @@
+import exifr from "exifr";
+import { withExif } from "@/lib/exifWriter";
+
+export interface CompressRequest {
+  id: number;
+  file: Blob;
+  maxDimension: number;
+  quality: number;
+}
+
+export type CompressResponse = { id: number; blob: Blob } | { id: number; error: string };
+
+// The DOM lib has no worker global scope type; Worker has the same message API
+const scope = self as unknown as Worker;
+
+// Capture time and camera from the original, so the gallery still sorts the
+// optimized copy by when it was taken
+async function readCaptureTags(file: Blob) {
+  const tags = await exifr
+    .parse(file, {
+      pick: ["DateTimeOriginal", "OffsetTimeOriginal", "Make", "Model"],
+      reviveValues: false,
+    })
+    .catch(() => undefined);
+
+  return {
+    dateTimeOriginal: typeof tags?.DateTimeOriginal === "string" ? tags.DateTimeOriginal : undefined,
+    offsetTimeOriginal: typeof tags?.OffsetTimeOriginal === "string" ? tags.OffsetTimeOriginal : undefined,
+    make: typeof tags?.Make === "string" ? tags.Make.trim() : undefined,
+    model: typeof tags?.Model === "string" ? tags.Model.trim() : undefined,
+  };
+}
+
+scope.onmessage = async (event: MessageEvent<CompressRequest>) => {
+  const { id, file, maxDimension, quality } = event.data;
+  try {
+    // Decoding applies the EXIF orientation, so the output is stored upright
+    const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("2D canvas is not available");
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const encoded = await canvas.convertToBlob({ type: "image/jpeg", quality });
+    const blob = await withExif(encoded, await readCaptureTags(file));
+    scope.postMessage({ id, blob } satisfies CompressResponse);
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) } satisfies CompressResponse);
+  }
+};
@@ -0,0 +1,32 @@
+import type { Request, Response, NextFunction } from "express";
+import * as crypto from "crypto";
+import { config } from "./config";
+
+function presentedToken(req: Request): string | undefined {
+  const header = req.get("Authorization");
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+  // Allows plain links, e.g. downloading an original from the browser
+  return typeof req.query.token === "string" ? req.query.token : undefined;
+}
+
+export function isAdmin(req: Request): boolean {
+  const token = presentedToken(req);
+  if (!config.adminToken || !token) return false;
+
+  // Compare digests so the comparison time does not depend on the token length
+  const expected = crypto.createHash("sha256").update(config.adminToken).digest();
+  const actual = crypto.createHash("sha256").update(token).digest();
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!config.adminToken) {
+    return res.status(403).json({ message: "Admin access is not configured" });
+  }
+  if (!isAdmin(req)) {
+    return res.status(401).json({ message: "Admin token required" });
+  }
+  next();
+}
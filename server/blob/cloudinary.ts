@@ -0,0 +1,108 @@
+import { v2 as cloudinary } from "cloudinary";
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { pipeline } from "stream/promises";
+import type { Config } from "../config";
+import { readBlobSource, type BlobInfo, type BlobSource, type BlobStore, type ByteRange } from "./types";
+
+// Blobs are stored as "raw" resources so Cloudinary hands back exactly the
+// bytes we gave it instead of a re-encoded derivative.
+const RESOURCE_TYPE = "raw";
+
+export class CloudinaryBlobStore implements BlobStore {
+  private folder: string;
+
+  constructor(options: Config["cloudinary"]) {
+    if (!options.cloudName || !options.apiKey || !options.apiSecret) {
+      throw new Error("Cloudinary credentials must be set when BLOB_DRIVER is cloudinary");
+    }
+    this.folder = options.folder;
+  }
+
+  private publicId(key: string): string {
+    return `${this.folder}/${key}`;
+  }
+
+  async put(key: string, data: BlobSource): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const stream = cloudinary.uploader.upload_stream(
+        { public_id: this.publicId(key), resource_type: RESOURCE_TYPE, overwrite: true },
+        (error) => (error ? reject(error) : resolve()),
+      );
+      const source = readBlobSource(data);
+      if (Buffer.isBuffer(source)) {
+        stream.end(source);
+      } else {
+        pipeline(source, stream).catch(reject);
+      }
+    });
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    const response = await this.fetch(key);
+    if (!response) return undefined;
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable | undefined> {
+    const response = await this.fetch(key, range);
+    if (!response?.body) return undefined;
+    return Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+  }
+
+  private async fetch(key: string, range?: ByteRange): Promise<Response | undefined> {
+    const url = cloudinary.url(this.publicId(key), { resource_type: RESOURCE_TYPE, secure: true });
+    const response = await fetch(url, {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : {},
+    });
+    if (response.status === 404) return undefined;
+    if (!response.ok || (range && response.status !== 206)) {
+      throw new Error(`Cloudinary responded ${response.status} for ${key}`);
+    }
+    return response;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const result = await cloudinary.uploader.destroy(this.publicId(key), {
+      resource_type: RESOURCE_TYPE,
+      invalidate: true,
+    });
+    return result?.result === "ok";
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await cloudinary.api.resource(this.publicId(key), { resource_type: RESOURCE_TYPE });
+      return true;
+    } catch (error) {
+      if ((error as { error?: { http_code?: number } } | undefined)?.error?.http_code === 404) return false;
+      throw error;
+    }
+  }
+
+  async list(): Promise<BlobInfo[]> {
+    const prefix = `${this.folder}/`;
+    const blobs: BlobInfo[] = [];
+    let nextCursor: string | undefined;
+
+    do {
+      const page = await cloudinary.api.resources({
+        type: "upload",
+        resource_type: RESOURCE_TYPE,
+        prefix,
+        max_results: 500,
+        next_cursor: nextCursor,
+      });
+      for (const resource of page.resources ?? []) {
+        blobs.push({
+          key: (resource.public_id as string).slice(prefix.length),
+          size: resource.bytes,
+          lastModified: new Date(resource.created_at),
+        });
+      }
+      nextCursor = page.next_cursor;
+    } while (nextCursor);
+
+    return blobs;
+  }
+}
@@ -0,0 +1,19 @@
+import type { Config } from "../config";
+import type { BlobStore } from "./types";
+import { LocalBlobStore } from "./local";
+import { S3BlobStore } from "./s3";
+import { CloudinaryBlobStore } from "./cloudinary";
+
+export function createBlobStore(config: Config, localDir: string): BlobStore {
+  switch (config.blobDriver) {
+    case "s3":
+      return new S3BlobStore(config.s3);
+    case "cloudinary":
+      return new CloudinaryBlobStore(config.cloudinary);
+    case "local":
+      return new LocalBlobStore(localDir);
+  }
+}
+
+export * from "./types";
+export { LocalBlobStore, S3BlobStore, CloudinaryBlobStore };
@@ -0,0 +1,100 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { BlobInfo, BlobSource, BlobStore, ByteRange } from "./types";
+
+async function moveFile(from: string, to: string) {
+  try {
+    await fs.promises.rename(from, to);
+  } catch (error) {
+    // Staging and storage directories can live on different devices
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+    await fs.promises.copyFile(from, to);
+    await fs.promises.rm(from, { force: true });
+  }
+}
+
+export class LocalBlobStore implements BlobStore {
+  constructor(private root: string) {
+    fs.mkdirSync(root, { recursive: true });
+  }
+
+  // Keys come partly from client-supplied file names, so refuse anything
+  // that would resolve outside the storage directory.
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: BlobSource): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    if (Buffer.isBuffer(data)) {
+      await fs.promises.writeFile(filePath, data);
+    } else if ("filePath" in data) {
+      await moveFile(data.filePath, filePath);
+    } else {
+      await pipeline(data, fs.createWriteStream(filePath));
+    }
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable | undefined> {
+    const filePath = this.resolve(key);
+    if (!(await this.exists(key))) return undefined;
+    return fs.createReadStream(filePath, range);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return stats.isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  localPath(key: string): string {
+    return this.resolve(key);
+  }
+
+  async list(): Promise<BlobInfo[]> {
+    const entries = await fs.promises.readdir(this.root, { recursive: true, withFileTypes: true });
+    const blobs: BlobInfo[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      const filePath = path.join(entry.parentPath, entry.name);
+      const stats = await fs.promises.stat(filePath);
+      blobs.push({
+        key: path.relative(this.root, filePath).split(path.sep).join("/"),
+        size: stats.size,
+        lastModified: stats.mtime,
+      });
+    }
+    return blobs;
+  }
+}
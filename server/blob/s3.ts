@@ -0,0 +1,114 @@
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  NotFound,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { Readable } from "stream";
+import type { Config } from "../config";
+import { readBlobSource, type BlobInfo, type BlobSource, type BlobStore, type ByteRange } from "./types";
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof NoSuchKey || error instanceof NotFound;
+}
+
+export class S3BlobStore implements BlobStore {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(options: Config["s3"]) {
+    if (!options.bucket) {
+      throw new Error("S3_BUCKET must be set when BLOB_DRIVER is s3");
+    }
+
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+          : undefined,
+    });
+  }
+
+  async put(key: string, data: BlobSource, contentType?: string): Promise<void> {
+    // Upload handles streams of unknown length by switching to multipart
+    const upload = new Upload({
+      client: this.client,
+      params: { Bucket: this.bucket, Key: key, Body: readBlobSource(data), ContentType: contentType },
+    });
+    await upload.done();
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    const stream = await this.stream(key);
+    if (!stream) return undefined;
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable | undefined> {
+    try {
+      const result = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        }),
+      );
+      return result.Body as Readable;
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    // S3 deletes are idempotent and do not say whether the key existed
+    if (!(await this.exists(key))) return false;
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    return true;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  async list(): Promise<BlobInfo[]> {
+    const blobs: BlobInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({ Bucket: this.bucket, ContinuationToken: continuationToken }),
+      );
+      for (const object of page.Contents ?? []) {
+        if (!object.Key) continue;
+        blobs.push({
+          key: object.Key,
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? new Date(0),
+        });
+      }
+      continuationToken = page.NextContinuationToken;
+    } while (continuationToken);
+
+    return blobs;
+  }
+}
@@ -0,0 +1,36 @@
+import * as fs from "fs";
+import type { Readable } from "stream";
+
+// `filePath` lets a driver move a staged upload into place instead of copying it
+export type BlobSource = Buffer | Readable | { filePath: string };
+
+export function readBlobSource(data: BlobSource): Buffer | Readable {
+  if (Buffer.isBuffer(data) || !("filePath" in data)) return data;
+  return fs.createReadStream(data.filePath);
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface BlobInfo {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+// Byte storage for media files, addressed by slash-separated keys.
+// Metadata lives in IStorage; a BlobStore only ever sees opaque bytes.
+export interface BlobStore {
+  put(key: string, data: BlobSource, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  // Streams the whole blob, or only `range` when one is given
+  stream(key: string, range?: ByteRange): Promise<Readable | undefined>;
+  delete(key: string): Promise<boolean>;
+  exists(key: string): Promise<boolean>;
+  list(): Promise<BlobInfo[]>;
+  // Path of the blob on local disk, for drivers that keep one
+  localPath?(key: string): string | undefined;
+}
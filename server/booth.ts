@@ -0,0 +1,71 @@
+import sharp from "sharp";
+import * as crypto from "crypto";
+import type { BoothFrame } from "@shared/schema";
+import { storage, blobStore } from "./storage";
+import { UnsupportedMediaError } from "./media/sniff";
+
+const MAX_FRAMES = 20;
+
+export class TooManyFramesError extends Error {
+  constructor() {
+    super(`A gallery can have at most ${MAX_FRAMES} booth frames`);
+    this.name = "TooManyFramesError";
+  }
+}
+
+export function boothFrameKey(id: string): string {
+  return `booth-frames/${id}.png`;
+}
+
+export async function getBoothFrame(id: string): Promise<BoothFrame | undefined> {
+  const settings = await storage.getSettings();
+  return settings.booth.frames.find((frame) => frame.id === id);
+}
+
+// Frames are re-encoded rather than stored as sent, which also drops any
+// metadata or trailing data the file carried
+export async function addBoothFrame(filePath: string, name: string): Promise<BoothFrame> {
+  const settings = await storage.getSettings();
+  if (settings.booth.frames.length >= MAX_FRAMES) {
+    throw new TooManyFramesError();
+  }
+
+  const image = sharp(filePath);
+  const meta = await image.metadata().catch(() => undefined);
+  if (meta?.format !== "png") {
+    throw new UnsupportedMediaError("Booth frames must be PNG images");
+  }
+  if (!meta.hasAlpha) {
+    throw new UnsupportedMediaError("Booth frames need a transparent area for the photo to show through");
+  }
+
+  const { data, info } = await image.png().toBuffer({ resolveWithObject: true });
+  const frame: BoothFrame = {
+    id: crypto.randomUUID(),
+    name,
+    width: info.width,
+    height: info.height,
+    size: info.size,
+  };
+  await blobStore.put(boothFrameKey(frame.id), data, "image/png");
+
+  // Re-read so a settings change made while encoding is not overwritten
+  const current = await storage.getSettings();
+  await storage.updateSettings({
+    ...current,
+    booth: { ...current.booth, frames: [...current.booth.frames, frame] },
+  });
+  return frame;
+}
+
+export async function removeBoothFrame(id: string): Promise<boolean> {
+  const settings = await storage.getSettings();
+  if (!settings.booth.frames.some((frame) => frame.id === id)) return false;
+
+  await storage.updateSettings({
+    ...settings,
+    booth: { ...settings.booth, frames: settings.booth.frames.filter((frame) => frame.id !== id) },
+  });
+  await blobStore.delete(boothFrameKey(id));
+  return true;
+}
@@ -0,0 +1,80 @@
+import { z } from "zod";
+import * as os from "os";
+import * as path from "path";
+import { PRIVACY_POLICIES } from "@shared/schema";
+
+const envSchema = z.object({
+  DATABASE_URL: z.string().optional(),
+
+  // Uploads are streamed here before being moved into the blob store
+  UPLOAD_TMP_DIR: z.string().default(path.join(os.tmpdir(), "wedding-gallery-uploads")),
+  MAX_UPLOAD_BYTES: z.coerce.number().int().positive().default(50 * 1024 * 1024),
+
+  // Local binaries used for video posters and metadata
+  FFMPEG_PATH: z.string().default("ffmpeg"),
+  FFPROBE_PATH: z.string().default("ffprobe"),
+
+  // What embedded metadata is removed from the copies served to guests
+  PRIVACY_POLICY: z.enum(PRIVACY_POLICIES).default("location"),
+  // Bearer token for admin-only routes such as untouched originals; unset disables them
+  ADMIN_TOKEN: z.string().min(16).optional(),
+
+  // Where media bytes live: local disk (default), an S3-compatible bucket or Cloudinary
+  BLOB_DRIVER: z.enum(["local", "s3", "cloudinary"]).default("local"),
+
+  S3_BUCKET: z.string().optional(),
+  S3_REGION: z.string().default("us-east-1"),
+  S3_ENDPOINT: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_FORCE_PATH_STYLE: z.enum(["true", "false"]).default("false"),
+
+  CLOUDINARY_CLOUD_NAME: z.string().optional(),
+  CLOUDINARY_API_KEY: z.string().optional(),
+  CLOUDINARY_API_SECRET: z.string().optional(),
+  CLOUDINARY_FOLDER: z.string().default("wedding-gallery"),
+  // "auto" mirrors uploads to Cloudinary only when credentials are present
+  CLOUDINARY_MIRROR: z.enum(["auto", "on", "off"]).default("auto"),
+});
+
+const env = envSchema.parse(process.env);
+
+const hasCloudinaryCredentials = Boolean(
+  env.CLOUDINARY_CLOUD_NAME && env.CLOUDINARY_API_KEY && env.CLOUDINARY_API_SECRET,
+);
+
+if (env.CLOUDINARY_MIRROR === "on" && !hasCloudinaryCredentials) {
+  throw new Error("CLOUDINARY_MIRROR is on but Cloudinary credentials are missing");
+}
+
+export const config = {
+  databaseUrl: env.DATABASE_URL,
+  uploadTmpDir: env.UPLOAD_TMP_DIR,
+  maxUploadBytes: env.MAX_UPLOAD_BYTES,
+  ffmpegPath: env.FFMPEG_PATH,
+  ffprobePath: env.FFPROBE_PATH,
+  privacyPolicy: env.PRIVACY_POLICY,
+  adminToken: env.ADMIN_TOKEN,
+  blobDriver: env.BLOB_DRIVER,
+  s3: {
+    bucket: env.S3_BUCKET,
+    region: env.S3_REGION,
+    // Set for MinIO and other S3-compatible services
+    endpoint: env.S3_ENDPOINT,
+    accessKeyId: env.S3_ACCESS_KEY_ID,
+    secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    forcePathStyle: env.S3_FORCE_PATH_STYLE === "true",
+  },
+  cloudinary: {
+    cloudName: env.CLOUDINARY_CLOUD_NAME,
+    apiKey: env.CLOUDINARY_API_KEY,
+    apiSecret: env.CLOUDINARY_API_SECRET,
+    folder: env.CLOUDINARY_FOLDER,
+    configured: hasCloudinaryCredentials,
+    // Mirroring is pointless when Cloudinary already holds the primary copy
+    mirror:
+      env.CLOUDINARY_MIRROR !== "off" && hasCloudinaryCredentials && env.BLOB_DRIVER !== "cloudinary",
+  },
+};
+
+export type Config = typeof config;
@@ -0,0 +1,25 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzlePg } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Neon databases are reached over their websocket proxy; anything else
+// (a local Postgres, a CI container) goes through node-postgres.
+export function createDb(connectionString: string): Database {
+  const { hostname } = new URL(connectionString);
+
+  if (hostname.endsWith(".neon.tech")) {
+    const pool = new NeonPool({ connectionString });
+    return drizzleNeon({ client: pool, schema });
+  }
+
+  const pool = new pg.Pool({ connectionString });
+  return drizzlePg({ client: pool, schema });
+}
@@ -0,0 +1,11 @@
+declare module "heic-decode" {
+  interface DecodedImage {
+    width: number;
+    height: number;
+    // RGBA, four bytes per pixel
+    data: Uint8ClampedArray;
+  }
+
+  function decode(options: { buffer: Uint8Array | ArrayBuffer }): Promise<DecodedImage>;
+  export default decode;
+}
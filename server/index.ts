@@ -4,13 +4,20 @@ import { setupVite, serveStatic, log } from "./vite";
 import { v2 as cloudinary } from 'cloudinary';
 import multer from 'multer';
 import router from './routes';
+import { config } from './config';
+import { storage } from './storage';
+import { resumePendingMirrors } from './mirror';
+import { resumePendingTranscodes } from './media/transcode';
+import { startJobQueue } from './jobs';
+import { resumeInterruptedProcessing } from './media/process';
+import { scheduleUploadSweep } from './tus';
 
 
 
 cloudinary.config({
-  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-  api_key: process.env.CLOUDINARY_API_KEY,
-  api_secret: process.env.CLOUDINARY_API_SECRET
+  cloud_name: config.cloudinary.cloudName,
+  api_key: config.cloudinary.apiKey,
+  api_secret: config.cloudinary.apiSecret
 });
 
 
@@ -49,6 +56,12 @@ app.use((req, res, next) => {
   next();
 });
 (async () => {
+  await storage.init();
+  await startJobQueue();
+  await resumeInterruptedProcessing();
+  await resumePendingMirrors();
+  await resumePendingTranscodes();
+  scheduleUploadSweep();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
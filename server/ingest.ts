@@ -0,0 +1,94 @@
+import { z } from "zod";
+import {
+  insertMediaSchema,
+  isOriginalsOnlyUploader,
+  displayFileTypeFor,
+  type MediaFile,
+  type UploadResult,
+} from "@shared/schema";
+import { storage, DuplicateMediaError } from "./storage";
+import { initialMirrorMetadata, scheduleMirror } from "./mirror";
+import { processMedia } from "./media/process";
+import { verifyMediaType } from "./media/sniff";
+
+// A complete upload sitting in the temp directory, from either the
+// multipart route or a finished resumable upload
+export interface StagedFile {
+  path: string;
+  originalName: string;
+  // Content-Type sent by the client; only trusted as far as sniffing allows
+  claimedType: string;
+  size: number;
+  sha256: string;
+  uploaderName?: string;
+  // The browser shrank the photo before sending it
+  optimized?: boolean;
+}
+
+// Form fields (or tus metadata) sent along with a file
+export const uploadFieldsSchema = z.object({
+  uploaderName: z
+    .string()
+    .trim()
+    .max(80)
+    .optional()
+    .transform((name) => name || undefined),
+  optimized: z
+    .enum(["0", "1"])
+    .optional()
+    .transform((flag) => flag === "1"),
+});
+
+// Validates and stores one staged file, then queues its processing. Failures are reported in
+// the result rather than thrown so one bad file never fails a batch.
+export async function ingestStagedFile(file: StagedFile): Promise<UploadResult> {
+  try {
+    if (file.optimized && isOriginalsOnlyUploader(await storage.getSettings(), file.uploaderName)) {
+      throw new Error("This uploader must send original files; turn off optimizing and upload again");
+    }
+
+    // The type comes from the content, not from what the browser claims
+    const fileType = await verifyMediaType(file.path, file.claimedType);
+
+    const mediaData = {
+      fileName: file.originalName,
+      fileType,
+      fileSize: file.size,
+      uploadDate: new Date().toISOString(),
+      contentHash: file.sha256,
+      uploaderName: file.uploaderName,
+      displayFileType: displayFileTypeFor(fileType),
+      processingStatus: "processing" as const,
+      metadata: {
+        originalName: file.originalName,
+        ...(file.optimized ? { optimized: true } : {}),
+        ...initialMirrorMetadata(),
+      },
+    };
+
+    insertMediaSchema.parse(mediaData);
+
+    // Stored locally first; the Cloudinary copy is made in the background
+    let mediaRecord: MediaFile;
+    try {
+      mediaRecord = await storage.createMedia(mediaData, { filePath: file.path });
+    } catch (error) {
+      if (!(error instanceof DuplicateMediaError)) throw error;
+
+      // Already stored: answer with the existing id instead of keeping a second copy
+      return { id: error.existing.id, fileName: file.originalName, status: "duplicate" };
+    }
+
+    await scheduleMirror(mediaRecord);
+    await processMedia(mediaRecord);
+
+    return { id: mediaRecord.id, fileName: mediaRecord.fileName, status: "success" };
+  } catch (error) {
+    console.error("Error processing file:", file.originalName, error);
+    return {
+      fileName: file.originalName,
+      status: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
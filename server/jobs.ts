@@ -0,0 +1,203 @@
+import type { JobType, MediaFile, MediaJob, ProcessingStatus } from "@shared/schema";
+import { storage } from "./storage";
+
+// Work on an upload runs here after the upload itself has been answered. Jobs
+// are kept in storage so a restart picks up where it left off; each lane caps
+// how many of its jobs run at once, and failed attempts are retried with backoff.
+
+const LANE_CONCURRENCY = {
+  // sharp, exifr and short ffmpeg runs
+  media: 2,
+  // Encodes keep a core busy for a long time
+  video: 1,
+  // Uploads to Cloudinary
+  network: 2,
+};
+type Lane = keyof typeof LANE_CONCURRENCY;
+
+const BASE_DELAY_MS = 5_000;
+
+export interface JobHandler {
+  lane: Lane;
+  maxAttempts: number;
+  // The media shows as "processing" until this job has finished
+  affectsStatus: boolean;
+  run(media: MediaFile, job: MediaJob): Promise<unknown>;
+  onFailure?(media: MediaFile, job: MediaJob, lastError: string, willRetry: boolean): Promise<unknown>;
+}
+
+const handlers = new Map<JobType, JobHandler>();
+
+export function defineJob(type: JobType, handler: JobHandler) {
+  handlers.set(type, handler);
+}
+
+const running: Record<Lane, number> = { media: 0, video: 0, network: 0 };
+let started = false;
+let pumping = false;
+let pumpAgain = false;
+let timer: NodeJS.Timeout | undefined;
+
+function isUnfinished(job: MediaJob): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+// Cloudinary rejects with plain { message, http_code } objects rather than Errors
+function errorMessage(error: unknown): string {
+  return (error as { message?: string } | undefined)?.message ?? String(error);
+}
+
+export async function refreshProcessingStatus(mediaId: number) {
+  const jobs = await storage.getJobsForMedia(mediaId);
+  const tracked = jobs.filter((job) => handlers.get(job.type)?.affectsStatus);
+
+  let status: ProcessingStatus = "ready";
+  if (tracked.some(isUnfinished)) {
+    status = "processing";
+  } else if (tracked.some((job) => job.status === "failed")) {
+    status = "failed";
+  }
+
+  const media = await storage.getMediaById(mediaId);
+  if (media && media.processingStatus !== status) {
+    await storage.setProcessingStatus(mediaId, status);
+  }
+
+  // Failed jobs are kept for their error and so a retry can reuse them
+  if (jobs.length > 0 && jobs.every((job) => job.status === "done")) {
+    await storage.deleteJobsForMedia(mediaId);
+  }
+}
+
+// A job of the same type that has not finished is brought forward instead of
+// duplicated; a failed one starts over with a fresh round of attempts
+export async function enqueueJob(
+  mediaId: number,
+  type: JobType,
+  { dependsOn }: { dependsOn?: MediaJob } = {},
+): Promise<MediaJob> {
+  const now = new Date().toISOString();
+  const existing = (await storage.getJobsForMedia(mediaId)).find(
+    (job) => job.type === type && job.status !== "done",
+  );
+  if (existing?.status === "running") return existing;
+
+  let job: MediaJob;
+  if (existing) {
+    const attempts = existing.status === "failed" ? 0 : existing.attempts;
+    job = (await storage.updateJob(existing.id, { status: "queued", attempts, runAt: now, updatedAt: now })) ?? existing;
+  } else {
+    job = await storage.createJob({ mediaId, type, runAt: now, updatedAt: now, dependsOn: dependsOn?.id ?? null });
+  }
+
+  if (handlers.get(type)?.affectsStatus) {
+    await refreshProcessingStatus(mediaId);
+  }
+  wake();
+  return job;
+}
+
+async function execute(job: MediaJob, handler: JobHandler) {
+  try {
+    const media = await storage.getMediaById(job.mediaId);
+    if (!media) {
+      // Deleted while queued
+      await storage.deleteJobsForMedia(job.mediaId);
+      return;
+    }
+
+    try {
+      await handler.run(media, job);
+      await storage.updateJob(job.id, { status: "done", lastError: null, updatedAt: new Date().toISOString() });
+    } catch (error) {
+      const lastError = errorMessage(error);
+      const willRetry = job.attempts < handler.maxAttempts;
+      console.error(`Job "${job.type}" attempt ${job.attempts} failed for media ${job.mediaId}:`, lastError);
+
+      await handler.onFailure?.(media, job, lastError, willRetry);
+      const delay = BASE_DELAY_MS * 2 ** (job.attempts - 1);
+      await storage.updateJob(job.id, {
+        status: willRetry ? "queued" : "failed",
+        lastError,
+        runAt: willRetry ? new Date(Date.now() + delay).toISOString() : job.runAt,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+
+    await refreshProcessingStatus(job.mediaId);
+  } catch (error) {
+    console.error(`Job "${job.type}" crashed for media ${job.mediaId}:`, error);
+  } finally {
+    running[handler.lane]--;
+    wake();
+  }
+}
+
+// Starts every due job whose lane has room and whose dependency has finished
+async function claimDueJobs() {
+  const jobs = await storage.getUnfinishedJobs();
+  const unfinished = new Set(jobs.map((job) => job.id));
+  const now = Date.now();
+  let nextRunAt = Infinity;
+
+  for (const job of jobs) {
+    if (job.status !== "queued") continue;
+    if (job.dependsOn !== null && unfinished.has(job.dependsOn)) continue;
+
+    const handler = handlers.get(job.type);
+    if (!handler) continue;
+
+    const runAt = Date.parse(job.runAt);
+    if (runAt > now) {
+      nextRunAt = Math.min(nextRunAt, runAt);
+      continue;
+    }
+    if (running[handler.lane] >= LANE_CONCURRENCY[handler.lane]) continue;
+
+    running[handler.lane]++;
+    const claimed = await storage.updateJob(job.id, {
+      status: "running",
+      attempts: job.attempts + 1,
+      updatedAt: new Date().toISOString(),
+    });
+    void execute(claimed ?? { ...job, attempts: job.attempts + 1 }, handler);
+  }
+
+  if (timer) clearTimeout(timer);
+  timer = nextRunAt < Infinity ? setTimeout(wake, nextRunAt - now).unref() : undefined;
+}
+
+async function pump() {
+  if (pumping) {
+    pumpAgain = true;
+    return;
+  }
+
+  pumping = true;
+  try {
+    do {
+      pumpAgain = false;
+      await claimDueJobs();
+    } while (pumpAgain);
+  } finally {
+    pumping = false;
+  }
+}
+
+function wake() {
+  if (!started) return;
+  pump().catch((error) => console.error("Job queue failed:", error));
+}
+
+// Jobs left running by a restart count the interrupted attempt and go back in line
+export async function startJobQueue() {
+  const now = new Date().toISOString();
+  for (const job of await storage.getUnfinishedJobs()) {
+    if (job.status === "running") {
+      await storage.updateJob(job.id, { status: "queued", runAt: now, updatedAt: now });
+    }
+  }
+
+  started = true;
+  wake();
+}
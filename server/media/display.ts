@@ -0,0 +1,98 @@
+import sharp from "sharp";
+import decodeHeif from "heic-decode";
+import * as crypto from "crypto";
+import type { DisplayCopy, MediaFile } from "@shared/schema";
+import { config } from "../config";
+import { storage, blobStore, mediaBlobKey } from "../storage";
+import { keptExif } from "./privacy";
+
+// Originals browsers cannot show (HEIC/HEIF) get a full-size JPEG that stands
+// in for them everywhere except the original download. sharp's prebuilt
+// libvips only decodes AVIF, so HEVC-coded images go through libheif's WASM build.
+
+export function displayCopyKey(mediaId: number): string {
+  return `display/${mediaId}.jpg`;
+}
+
+export function needsDisplayCopy(media: MediaFile): boolean {
+  return media.displayFileType !== null && media.displayFileType !== media.fileType;
+}
+
+async function loadOriginal(media: MediaFile): Promise<Buffer> {
+  const data = await blobStore.get(mediaBlobKey(media));
+  if (!data) {
+    throw new Error("Media bytes not found in blob store");
+  }
+  return data;
+}
+
+// Only tags the privacy policy allows are written back, whatever the policy:
+// the copy is never the untouched original
+function displayPolicy(): NonNullable<DisplayCopy["policy"]> {
+  return config.privacyPolicy === "all" ? "all" : "location";
+}
+
+// libheif already applies the rotation and mirroring stored in the file, so
+// the pixels come out upright
+async function createDisplayCopy(media: MediaFile): Promise<{ copy: DisplayCopy; data: Buffer }> {
+  const policy = displayPolicy();
+  const original = await loadOriginal(media);
+  const decoded = await decodeHeif({ buffer: original });
+
+  let image = sharp(Buffer.from(decoded.data.buffer, decoded.data.byteOffset, decoded.data.byteLength), {
+    raw: { width: decoded.width, height: decoded.height, channels: 4 },
+  });
+  if (policy !== "all") {
+    image = image.withExif(await keptExif(original));
+  }
+
+  const { data, info } = await image.jpeg({ quality: 92 }).toBuffer({ resolveWithObject: true });
+  const copy: DisplayCopy = {
+    policy,
+    contentType: "image/jpeg",
+    size: data.length,
+    sha256: crypto.createHash("sha256").update(data).digest("hex"),
+    width: info.width,
+    height: info.height,
+  };
+
+  await blobStore.put(displayCopyKey(media.id), data, copy.contentType);
+  await storage.updateMediaMetadata(media.id, { display: copy });
+  return { copy, data };
+}
+
+const inFlight = new Map<number, Promise<{ copy: DisplayCopy; data: Buffer }>>();
+
+function generate(media: MediaFile) {
+  let pending = inFlight.get(media.id);
+  if (!pending) {
+    pending = createDisplayCopy(media).finally(() => inFlight.delete(media.id));
+    inFlight.set(media.id, pending);
+  }
+  return pending;
+}
+
+// Remade when the privacy policy changes which tags it may keep
+export async function ensureDisplayCopy(media: MediaFile): Promise<DisplayCopy> {
+  const display = media.metadata?.display;
+  return display?.policy === displayPolicy() ? display : (await generate(media)).copy;
+}
+
+// Bytes sharp can read: the original, or its display copy when it has one
+export async function loadDisplayable(media: MediaFile): Promise<Buffer> {
+  if (!needsDisplayCopy(media)) {
+    return loadOriginal(media);
+  }
+
+  if (media.metadata?.display) {
+    const data = await blobStore.get(displayCopyKey(media.id));
+    if (data) return data;
+  }
+  return (await generate(media)).data;
+}
+
+export async function deleteDisplayCopy(media: MediaFile) {
+  if (media.metadata?.display) {
+    await blobStore.delete(displayCopyKey(media.id));
+  }
+}
@@ -0,0 +1,127 @@
+import { spawn } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { pipeline } from "stream/promises";
+import type { MediaFile } from "@shared/schema";
+import { config } from "../config";
+import { blobStore, mediaBlobKey } from "../storage";
+
+// Runs a binary to completion, resolving with stdout. stderr is only kept for
+// the error message, trimmed because ffmpeg is very chatty.
+function run(binary: string, args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ["ignore", "pipe", "pipe"] });
+    const stdout: Buffer[] = [];
+    let stderr = "";
+
+    child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new Error(`${path.basename(binary)} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
+
+export function runFfmpeg(args: string[]): Promise<Buffer> {
+  return run(config.ffmpegPath, ["-hide_banner", "-loglevel", "error", ...args]);
+}
+
+// ffmpeg needs seekable input (an MP4 may keep its index at the end), so the
+// original is copied to a temp file when the blob store is not local disk.
+export async function withLocalCopy<T>(media: MediaFile, fn: (filePath: string) => Promise<T>): Promise<T> {
+  const localPath = blobStore.localPath?.(mediaBlobKey(media));
+  if (localPath) {
+    return fn(localPath);
+  }
+
+  const source = await blobStore.stream(mediaBlobKey(media));
+  if (!source) {
+    throw new Error("Media bytes not found in blob store");
+  }
+
+  await fs.promises.mkdir(config.uploadTmpDir, { recursive: true });
+  const filePath = path.join(config.uploadTmpDir, `${crypto.randomUUID()}${path.extname(media.fileName)}`);
+  try {
+    await pipeline(source, fs.createWriteStream(filePath));
+    return await fn(filePath);
+  } finally {
+    await fs.promises.rm(filePath, { force: true });
+  }
+}
+
+export interface VideoProbe {
+  duration?: number;
+  // Display size, i.e. already swapped for rotated phone footage
+  width?: number;
+  height?: number;
+  videoCodec?: string;
+  // e.g. yuv420p; 10-bit and 4:2:2 H.264 will not play in most browsers
+  pixelFormat?: string;
+  audioCodec?: string;
+  // Container-level tags such as creation_time
+  tags: Record<string, string>;
+}
+
+interface FfprobeStream {
+  codec_type?: string;
+  codec_name?: string;
+  pix_fmt?: string;
+  width?: number;
+  height?: number;
+  tags?: Record<string, string>;
+  side_data_list?: Array<{ rotation?: number }>;
+}
+
+interface FfprobeOutput {
+  format?: { duration?: string; tags?: Record<string, string> };
+  streams?: FfprobeStream[];
+}
+
+export async function probeVideo(filePath: string): Promise<VideoProbe> {
+  const output = await run(config.ffprobePath, [
+    "-v", "error",
+    "-print_format", "json",
+    "-show_format",
+    "-show_streams",
+    filePath,
+  ]);
+  const parsed: FfprobeOutput = JSON.parse(output.toString());
+  const video = parsed.streams?.find((stream) => stream.codec_type === "video");
+  const audio = parsed.streams?.find((stream) => stream.codec_type === "audio");
+
+  const rotation = Math.abs(
+    Number(video?.side_data_list?.find((data) => data.rotation !== undefined)?.rotation ?? video?.tags?.rotate ?? 0),
+  );
+  const sideways = rotation === 90 || rotation === 270;
+  const duration = Number(parsed.format?.duration);
+
+  return {
+    duration: Number.isFinite(duration) ? duration : undefined,
+    width: sideways ? video?.height : video?.width,
+    height: sideways ? video?.width : video?.height,
+    videoCodec: video?.codec_name,
+    pixelFormat: video?.pix_fmt,
+    audioCodec: audio?.codec_name,
+    tags: parsed.format?.tags ?? {},
+  };
+}
+
+// Grabs one frame as PNG; ffmpeg applies the rotation metadata itself
+export function extractFrame(filePath: string, atSeconds: number): Promise<Buffer> {
+  return runFfmpeg([
+    "-ss", atSeconds.toFixed(3),
+    "-i", filePath,
+    "-frames:v", "1",
+    "-f", "image2pipe",
+    "-c:v", "png",
+    "pipe:1",
+  ]);
+}
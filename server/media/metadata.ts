@@ -0,0 +1,152 @@
+import exifr from "exifr";
+import sharp from "sharp";
+import {
+  captureMetadataSchema,
+  type CaptureMetadata,
+  type MediaFile,
+  type VideoMetadata,
+} from "@shared/schema";
+import { storage, blobStore, mediaBlobKey } from "../storage";
+import { withLocalCopy, probeVideo } from "./ffmpeg";
+
+type Tags = Record<string, unknown>;
+
+function text(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.replace(/\0/g, "").trim();
+  return trimmed || undefined;
+}
+
+function normalizeOffset(offset: string | undefined): string {
+  if (!offset) return "";
+  if (offset === "Z") return "Z";
+  // "+0200" (QuickTime) and "+02:00" (EXIF) both become "+02:00"
+  const match = /^([+-])(\d{2}):?(\d{2})$/.exec(offset);
+  return match ? `${match[1]}${match[2]}:${match[3]}` : "";
+}
+
+// EXIF writes "2024:06:01 17:32:10"; everything else is already ISO 8601
+function toIsoDate(value: unknown, offset?: string): string | undefined {
+  const raw = text(value);
+  if (!raw) return undefined;
+
+  const exif = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(raw);
+  if (exif) {
+    const [, year, month, day, hour, minute, second] = exif;
+    if (year === "0000") return undefined;
+    return `${year}-${month}-${day}T${hour}:${minute}:${second}${normalizeOffset(offset)}`;
+  }
+
+  const iso = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?)(Z|[+-]\d{2}:?\d{2})?$/.exec(raw);
+  if (iso) {
+    return `${iso[1]}${normalizeOffset(iso[2])}`;
+  }
+  return undefined;
+}
+
+// QuickTime stores locations as ISO 6709, e.g. "+37.3318-122.0312+010.000/"
+function parseIso6709(value: unknown): CaptureMetadata["gps"] {
+  const match = /^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)?/.exec(text(value) ?? "");
+  if (!match) return undefined;
+  return {
+    latitude: Number(match[1]),
+    longitude: Number(match[2]),
+    altitude: match[3] !== undefined ? Number(match[3]) : undefined,
+  };
+}
+
+// Keeps every field that validates instead of discarding the whole set
+// because one camera wrote a nonsensical value.
+function validated(capture: CaptureMetadata): CaptureMetadata {
+  const candidate: Record<string, unknown> = { ...capture };
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const result = captureMetadataSchema.safeParse(candidate);
+    if (result.success) return result.data;
+    for (const issue of result.error.issues) {
+      delete candidate[issue.path[0] as string];
+    }
+  }
+  return {};
+}
+
+async function imageCapture(media: MediaFile): Promise<CaptureMetadata> {
+  const data = await blobStore.get(mediaBlobKey(media));
+  if (!data) {
+    throw new Error("Media bytes not found in blob store");
+  }
+
+  const tags: Tags =
+    (await exifr.parse(data, {
+      tiff: true,
+      exif: true,
+      gps: true,
+      xmp: true,
+      mergeOutput: true,
+      reviveValues: false,
+      translateValues: false,
+    })) ?? {};
+  const image = await sharp(data).metadata();
+
+  const orientation = typeof tags.Orientation === "number" ? tags.Orientation : image.orientation;
+  const sideways = orientation !== undefined && orientation >= 5;
+  const altitude = typeof tags.GPSAltitude === "number" ? tags.GPSAltitude : undefined;
+
+  return {
+    capturedAt:
+      toIsoDate(tags.DateTimeOriginal, text(tags.OffsetTimeOriginal)) ??
+      toIsoDate(tags.CreateDate, text(tags.OffsetTimeDigitized)) ??
+      toIsoDate(tags.DateCreated),
+    make: text(tags.Make),
+    model: text(tags.Model),
+    lens: text(tags.LensModel) ?? text(tags.Lens),
+    width: sideways ? image.height : image.width,
+    height: sideways ? image.width : image.height,
+    orientation,
+    gps:
+      typeof tags.latitude === "number" && typeof tags.longitude === "number"
+        ? {
+            latitude: tags.latitude,
+            longitude: tags.longitude,
+            altitude: altitude !== undefined && tags.GPSAltitudeRef === 1 ? -altitude : altitude,
+          }
+        : undefined,
+  };
+}
+
+async function videoCapture(media: MediaFile): Promise<{ capture: CaptureMetadata; video: VideoMetadata }> {
+  const probe = await withLocalCopy(media, probeVideo);
+  const tag = (name: string) =>
+    Object.entries(probe.tags).find(([key]) => key.toLowerCase() === name)?.[1];
+
+  return {
+    video: {
+      duration: probe.duration,
+      width: probe.width,
+      height: probe.height,
+      videoCodec: probe.videoCodec,
+      audioCodec: probe.audioCodec,
+    },
+    capture: {
+      // Apple's creationdate keeps the local offset; creation_time is UTC
+      capturedAt:
+        toIsoDate(tag("com.apple.quicktime.creationdate")) ?? toIsoDate(tag("creation_time")),
+      make: text(tag("com.apple.quicktime.make")) ?? text(tag("make")),
+      model: text(tag("com.apple.quicktime.model")) ?? text(tag("model")),
+      width: probe.width,
+      height: probe.height,
+      gps: parseIso6709(tag("com.apple.quicktime.location.iso6709") ?? tag("location")),
+    },
+  };
+}
+
+// Reads capture time, camera, dimensions, orientation and location into the
+// media's metadata so the gallery can order by when things were taken.
+export async function extractMetadata(media: MediaFile) {
+  if (media.fileType.startsWith("video/")) {
+    const { capture, video } = await videoCapture(media);
+    await storage.updateMediaMetadata(media.id, { capture: validated(capture), video });
+  } else {
+    const capture = await imageCapture(media);
+    await storage.updateMediaMetadata(media.id, { capture: validated(capture) });
+  }
+}
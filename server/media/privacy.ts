@@ -0,0 +1,229 @@
+import sharp, { type Sharp } from "sharp";
+import exifr from "exifr";
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import type { MediaFile, MediaMetadata, PrivacyPolicy, PublicCopy } from "@shared/schema";
+import { config } from "../config";
+import { storage, blobStore, mediaBlobKey } from "../storage";
+import { hashFile } from "../upload";
+import { withLocalCopy, probeVideo, runFfmpeg } from "./ffmpeg";
+
+type StrippingPolicy = PublicCopy["policy"];
+
+// Formats that cannot carry EXIF or GPS, so the original is already safe
+const METADATA_FREE_TYPES = new Set(["image/gif", "image/bmp"]);
+
+const imageEncoders: Record<string, (image: Sharp) => Sharp> = {
+  "image/jpeg": (image) => image.jpeg({ quality: 92 }),
+  "image/png": (image) => image.png(),
+  "image/webp": (image) => image.webp({ quality: 92 }),
+  "image/avif": (image) => image.avif({ quality: 80 }),
+  "image/tiff": (image) => image.tiff(),
+};
+
+const videoContainers: Record<string, string> = {
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/webm": "webm",
+  "video/x-matroska": "matroska",
+  "video/3gpp": "3gp",
+};
+
+// Tags worth keeping under the "location" policy; everything else, including
+// GPS, serial numbers and maker notes, is dropped
+const KEPT_EXIF_TAGS = {
+  IFD0: ["Make", "Model", "Software", "DateTime", "Artist", "Copyright"],
+  IFD2: [
+    "DateTimeOriginal",
+    "DateTimeDigitized",
+    "OffsetTime",
+    "OffsetTimeOriginal",
+    "OffsetTimeDigitized",
+    "LensMake",
+    "LensModel",
+  ],
+} as const;
+
+// Failed copies are tried again after this, e.g. once ffmpeg is installed
+const RETRY_FAILED_COPY_MS = 10 * 60 * 1000;
+
+// Thrown instead of serving the original when no stripped copy can be made
+export class PublicCopyUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PublicCopyUnavailableError";
+  }
+}
+
+export function publicCopyKey(mediaId: number): string {
+  return `public/${mediaId}`;
+}
+
+// Whether guests must be served a stripped copy instead of the original
+export function needsPublicCopy(media: MediaFile): boolean {
+  // Originals with a display copy (HEIC) are shown through it, and it is already stripped
+  if (media.displayFileType && media.displayFileType !== media.fileType) return false;
+  return config.privacyPolicy !== "off" && !METADATA_FREE_TYPES.has(media.fileType);
+}
+
+export async function keptExif(data: Buffer): Promise<Record<string, Record<string, string>>> {
+  const tags = (await exifr.parse(data, { reviveValues: false, translateValues: false })) ?? {};
+  const exif: Record<string, Record<string, string>> = {};
+  for (const [ifd, names] of Object.entries(KEPT_EXIF_TAGS)) {
+    for (const name of names) {
+      if (typeof tags[name] === "string" && tags[name].trim()) {
+        exif[ifd] = { ...exif[ifd], [name]: tags[name] };
+      }
+    }
+  }
+  return exif;
+}
+
+// Re-encodes upright (the orientation tag goes with the rest of the EXIF) and
+// writes back only the allowed tags. The colour profile is always kept.
+async function stripImage(media: MediaFile, policy: StrippingPolicy): Promise<Buffer> {
+  const encode = imageEncoders[media.fileType];
+  if (!encode) {
+    throw new Error(`Cannot remove metadata from ${media.fileType} files`);
+  }
+
+  const data = await blobStore.get(mediaBlobKey(media));
+  if (!data) {
+    throw new Error("Media bytes not found in blob store");
+  }
+
+  let image = sharp(data, { failOn: "none" }).rotate().keepIccProfile();
+  if (policy === "location") {
+    image = image.withExif(await keptExif(data));
+  }
+  return encode(image).toBuffer();
+}
+
+// ffmpeg arguments that drop a video's tags as `policy` requires; the
+// "location" policy keeps only the recording time
+export async function videoMetadataArgs(inputPath: string, policy: PrivacyPolicy): Promise<string[]> {
+  if (policy === "off") return [];
+
+  const args = ["-map_metadata", "-1", "-map_chapters", "-1"];
+  if (policy === "location") {
+    const creationTime = (await probeVideo(inputPath)).tags.creation_time;
+    if (creationTime) args.push("-metadata", `creation_time=${creationTime}`);
+  }
+  return args;
+}
+
+// Remuxes without re-encoding. Only video and audio tracks are copied, since
+// phones also write location into timed metadata tracks.
+async function stripVideo(media: MediaFile, policy: StrippingPolicy, outputPath: string) {
+  const container = videoContainers[media.fileType];
+  if (!container) {
+    throw new Error(`Cannot remove metadata from ${media.fileType} files`);
+  }
+
+  await withLocalCopy(media, async (inputPath) => {
+    await runFfmpeg([
+      "-i", inputPath,
+      "-map", "0:v",
+      "-map", "0:a?",
+      "-c", "copy",
+      ...(await videoMetadataArgs(inputPath, policy)),
+      ...(container === "mp4" || container === "mov" ? ["-movflags", "+faststart"] : []),
+      "-f", container,
+      "-y", outputPath,
+    ]);
+  });
+}
+
+async function createPublicCopy(media: MediaFile, policy: StrippingPolicy): Promise<PublicCopy> {
+  const key = publicCopyKey(media.id);
+  let publicCopy: PublicCopy;
+
+  if (media.fileType.startsWith("video/")) {
+    await fs.promises.mkdir(config.uploadTmpDir, { recursive: true });
+    const outputPath = path.join(config.uploadTmpDir, crypto.randomUUID());
+    try {
+      await stripVideo(media, policy, outputPath);
+      const { size } = await fs.promises.stat(outputPath);
+      publicCopy = { policy, contentType: media.fileType, size, sha256: await hashFile(outputPath) };
+      await blobStore.put(key, { filePath: outputPath }, media.fileType);
+    } finally {
+      await fs.promises.rm(outputPath, { force: true });
+    }
+  } else {
+    const data = await stripImage(media, policy);
+    const sha256 = crypto.createHash("sha256").update(data).digest("hex");
+    publicCopy = { policy, contentType: media.fileType, size: data.length, sha256 };
+    await blobStore.put(key, data, media.fileType);
+  }
+
+  await storage.updateMediaMetadata(media.id, { publicCopy });
+  return publicCopy;
+}
+
+async function createOrRecordFailure(media: MediaFile, policy: StrippingPolicy): Promise<PublicCopy> {
+  try {
+    return await createPublicCopy(media, policy);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Could not make a public copy of media ${media.id}:`, message);
+    await storage.updateMediaMetadata(media.id, {
+      publicCopyError: { policy, message, failedAt: new Date().toISOString() },
+    });
+    throw new PublicCopyUnavailableError(message);
+  }
+}
+
+const inFlight = new Map<number, Promise<PublicCopy>>();
+
+// The stripped copy for the current policy, made on first use for media
+// uploaded before the policy was set or changed. Guests never get the
+// original in its place: after a failure this rejects with
+// PublicCopyUnavailableError until the retry delay has passed.
+export function ensurePublicCopy(media: MediaFile): Promise<PublicCopy> {
+  const policy = config.privacyPolicy;
+  if (policy === "off") {
+    return Promise.reject(new Error("Privacy stripping is disabled"));
+  }
+
+  const existing = media.metadata?.publicCopy;
+  if (existing?.policy === policy) return Promise.resolve(existing);
+
+  const failure = media.metadata?.publicCopyError;
+  if (failure?.policy === policy && Date.now() - Date.parse(failure.failedAt) < RETRY_FAILED_COPY_MS) {
+    return Promise.reject(new PublicCopyUnavailableError(failure.message));
+  }
+
+  let pending = inFlight.get(media.id);
+  if (!pending) {
+    pending = createOrRecordFailure(media, policy).finally(() => inFlight.delete(media.id));
+    inFlight.set(media.id, pending);
+  }
+  return pending;
+}
+
+export async function deletePublicCopy(media: MediaFile) {
+  if (media.metadata?.publicCopy) {
+    await blobStore.delete(publicCopyKey(media.id));
+  }
+}
+
+// Metadata as listed to guests: the same tags the policy strips from files.
+// The Cloudinary mirror holds the untouched original, so its URLs are left out too.
+export function publicMetadata(metadata: MediaMetadata | null): MediaMetadata | null {
+  if (!metadata || config.privacyPolicy === "off") return metadata;
+
+  const { cloudinaryUrl, publicCopyError, ...listed } = metadata;
+  if (listed.cloudinary) {
+    const { url, ...cloudinary } = listed.cloudinary;
+    listed.cloudinary = cloudinary;
+  }
+  if (!listed.capture) return listed;
+
+  const { gps, ...capture } = listed.capture;
+  if (config.privacyPolicy === "all") {
+    const { capturedAt, width, height } = capture;
+    return { ...listed, capture: { capturedAt, width, height } };
+  }
+  return { ...listed, capture };
+}
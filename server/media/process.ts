@@ -0,0 +1,63 @@
+import type { JobType, MediaFile, MediaJob } from "@shared/schema";
+import { storage } from "../storage";
+import { defineJob, enqueueJob } from "../jobs";
+import { createImageRenditions } from "./renditions";
+import { createVideoPoster } from "./video";
+import { extractMetadata } from "./metadata";
+import { computePerceptual } from "./similarity";
+import { needsPublicCopy, ensurePublicCopy } from "./privacy";
+import { scheduleTranscode } from "./transcode";
+import { needsDisplayCopy, ensureDisplayCopy } from "./display";
+
+// Local steps rarely succeed on a second try, but a restart or a busy disk
+// is worth one. The routes fall back to the original when renditions or a
+// poster are missing; a guest copy that cannot be stripped is answered with
+// 503 instead, since the original would leak what the policy removes.
+function defineStep(type: JobType, run: (media: MediaFile) => Promise<unknown>) {
+  defineJob(type, { lane: "media", maxAttempts: 2, affectsStatus: true, run: (media) => run(media) });
+}
+
+defineStep("metadata", extractMetadata);
+defineStep("display-copy", ensureDisplayCopy);
+defineStep("renditions", createImageRenditions);
+defineStep("perceptual-hash", computePerceptual);
+defineStep("poster", createVideoPoster);
+defineStep("public-copy", ensurePublicCopy);
+
+// Queues the derived files and metadata for a freshly stored upload. Each step
+// waits for the one before it, whether that succeeded or not.
+export async function processMedia(media: MediaFile) {
+  let previous: MediaJob = await enqueueJob(media.id, "metadata");
+  const then = async (type: JobType) => {
+    previous = await enqueueJob(media.id, type, { dependsOn: previous });
+  };
+
+  if (media.fileType.startsWith("image/")) {
+    if (needsDisplayCopy(media)) {
+      await then("display-copy");
+    }
+    await then("renditions");
+    await then("perceptual-hash");
+  } else if (media.fileType.startsWith("video/")) {
+    await then("poster");
+    // Runs on its own lane: encoding can take far longer than the other steps
+    await scheduleTranscode(media);
+  }
+
+  if (needsPublicCopy(media)) {
+    await then("public-copy");
+  }
+}
+
+// Requeues uploads still marked as processing that have nothing queued, e.g.
+// when the server stopped before their jobs were saved
+export async function resumeInterruptedProcessing() {
+  for (const media of await storage.getAllMedia()) {
+    if (media.processingStatus !== "processing") continue;
+
+    const jobs = await storage.getJobsForMedia(media.id);
+    if (!jobs.some((job) => job.status === "queued" || job.status === "running")) {
+      await processMedia(media);
+    }
+  }
+}
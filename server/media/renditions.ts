@@ -0,0 +1,91 @@
+import sharp from "sharp";
+import {
+  RENDITION_WIDTHS,
+  type MediaFile,
+  type Rendition,
+  type RenditionFormat,
+  type RenditionWidth,
+} from "@shared/schema";
+import { storage, blobStore } from "../storage";
+import { loadDisplayable } from "./display";
+
+const RENDITION_FORMATS: RenditionFormat[] = ["webp", "jpeg"];
+
+const contentTypes: Record<RenditionFormat, string> = {
+  webp: "image/webp",
+  jpeg: "image/jpeg",
+};
+
+export function renditionKey(mediaId: number, target: RenditionWidth, format: RenditionFormat): string {
+  return `renditions/${mediaId}/${target}.${format}`;
+}
+
+export function renditionContentType(format: RenditionFormat): string {
+  return contentTypes[format];
+}
+
+export function getRenditions(media: MediaFile): Rendition[] {
+  return media.metadata?.renditions ?? [];
+}
+
+// Encodes every width/format pair from one read of the original (or of
+// `source`, e.g. a video's poster frame) and records what was produced in the
+// media's metadata.
+export async function createImageRenditions(media: MediaFile, source?: Buffer): Promise<Rendition[]> {
+  const original = sharp(source ?? (await loadDisplayable(media)), { failOn: "none" })
+    // Apply the EXIF orientation before resizing; the encoders drop the tag
+    .rotate();
+
+  const renditions: Rendition[] = [];
+  for (const target of RENDITION_WIDTHS) {
+    const resized = original.clone().resize({ width: target, withoutEnlargement: true });
+
+    for (const format of RENDITION_FORMATS) {
+      const encoded =
+        format === "webp"
+          ? resized.clone().webp({ quality: 80 })
+          : resized.clone().jpeg({ quality: 82, mozjpeg: true });
+      const { data, info } = await encoded.toBuffer({ resolveWithObject: true });
+
+      await blobStore.put(renditionKey(media.id, target, format), data, contentTypes[format]);
+      renditions.push({ target, format, width: info.width, height: info.height, size: info.size });
+    }
+  }
+
+  await storage.updateMediaMetadata(media.id, { renditions });
+  return renditions;
+}
+
+// Generation requests for media already being processed share one promise
+const inFlight = new Map<number, Promise<Rendition[]>>();
+
+export function ensureImageRenditions(media: MediaFile): Promise<Rendition[]> {
+  const existing = getRenditions(media);
+  if (existing.length) return Promise.resolve(existing);
+
+  let pending = inFlight.get(media.id);
+  if (!pending) {
+    pending = createImageRenditions(media).finally(() => inFlight.delete(media.id));
+    inFlight.set(media.id, pending);
+  }
+  return pending;
+}
+
+export async function deleteRenditions(media: MediaFile) {
+  for (const rendition of getRenditions(media)) {
+    await blobStore.delete(renditionKey(media.id, rendition.target, rendition.format));
+  }
+}
+
+// Smallest rendition at least `width` wide in the wanted format, falling back
+// to the largest one available
+export function pickRendition(
+  renditions: Rendition[],
+  width: number,
+  format: RenditionFormat,
+): Rendition | undefined {
+  const candidates = renditions
+    .filter((rendition) => rendition.format === format)
+    .sort((a, b) => a.target - b.target);
+  return candidates.find((rendition) => rendition.target >= width) ?? candidates[candidates.length - 1];
+}
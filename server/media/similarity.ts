@@ -0,0 +1,50 @@
+import sharp, { type Sharp } from "sharp";
+import type { MediaFile, Perceptual } from "@shared/schema";
+import { storage } from "../storage";
+import { loadDisplayable } from "./display";
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// dHash: shrink to 9x8 grey pixels and record whether each pixel is brighter
+// than its right-hand neighbour, giving 64 bits that survive resizing and
+// re-compression
+async function differenceHash(image: Sharp): Promise<string> {
+  const { data, info } = await image
+    .clone()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: "fill" })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  let hex = "";
+  let nibble = 0;
+  let bits = 0;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = data[(y * HASH_WIDTH + x) * info.channels];
+      const right = data[(y * HASH_WIDTH + x + 1) * info.channels];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      if (++bits === 4) {
+        hex += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+  return hex;
+}
+
+export async function computePerceptual(media: MediaFile): Promise<Perceptual> {
+  const data = await loadDisplayable(media);
+  const image = sharp(data, { failOn: "none" }).rotate().greyscale();
+  const dHash = await differenceHash(image);
+  // Measured on a common size so large and small originals compare fairly
+  const { sharpness } = await image
+    .clone()
+    .resize(1024, 1024, { fit: "inside", withoutEnlargement: true })
+    .stats();
+
+  const perceptual = { dHash, sharpness };
+  await storage.updateMediaMetadata(media.id, { perceptual });
+  return perceptual;
+}
@@ -0,0 +1,129 @@
+import * as fs from "fs";
+
+// Concrete formats accepted for upload. Anything a browser could render as
+// a document (HTML, SVG, PDF...) is deliberately absent.
+export const ALLOWED_MEDIA_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+  "image/avif",
+  "video/mp4",
+  "video/quicktime",
+  "video/webm",
+  "video/x-matroska",
+  "video/3gpp",
+] as const;
+export type AllowedMediaType = (typeof ALLOWED_MEDIA_TYPES)[number];
+
+const HEAD_BYTES = 512;
+
+export class UnsupportedMediaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedMediaError";
+  }
+}
+
+// ISO base media files (MP4, MOV, HEIC, AVIF, 3GP) name their flavour in the
+// `ftyp` box: a major brand followed by compatible brands
+const ftypBrands: Record<string, AllowedMediaType> = {
+  avif: "image/avif",
+  avis: "image/avif",
+  heic: "image/heic",
+  heix: "image/heic",
+  hevc: "image/heic",
+  hevx: "image/heic",
+  heim: "image/heic",
+  heis: "image/heic",
+  mif1: "image/heif",
+  msf1: "image/heif",
+  "qt  ": "video/quicktime",
+  "3gp4": "video/3gpp",
+  "3gp5": "video/3gpp",
+  "3gp6": "video/3gpp",
+  "3g2a": "video/3gpp",
+  isom: "video/mp4",
+  iso2: "video/mp4",
+  iso4: "video/mp4",
+  iso5: "video/mp4",
+  iso6: "video/mp4",
+  mp41: "video/mp4",
+  mp42: "video/mp4",
+  avc1: "video/mp4",
+  dash: "video/mp4",
+  "M4V ": "video/mp4",
+};
+
+function ascii(head: Buffer, start: number, end: number): string {
+  return head.subarray(start, end).toString("latin1");
+}
+
+function sniffFtyp(head: Buffer): AllowedMediaType | undefined {
+  const boxSize = head.readUInt32BE(0);
+  const brandsEnd = Math.min(boxSize, head.length);
+  const brands = [ascii(head, 8, 12)];
+  for (let offset = 16; offset + 4 <= brandsEnd; offset += 4) {
+    brands.push(ascii(head, offset, offset + 4));
+  }
+
+  // A generic major brand ("mif1") is refined by a more specific compatible one
+  if (brands.includes("avif") || brands.includes("avis")) return "image/avif";
+  for (const brand of brands) {
+    const type = ftypBrands[brand];
+    if (type) return type;
+  }
+  return undefined;
+}
+
+// Identifies a file from its leading bytes
+export function sniffMediaType(head: Buffer): AllowedMediaType | undefined {
+  if (head.length < 12) return undefined;
+
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return "image/jpeg";
+  if (head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (ascii(head, 0, 6) === "GIF87a" || ascii(head, 0, 6) === "GIF89a") return "image/gif";
+  if (ascii(head, 0, 4) === "RIFF" && ascii(head, 8, 12) === "WEBP") return "image/webp";
+
+  const box = ascii(head, 4, 8);
+  if (box === "ftyp") return sniffFtyp(head);
+  // Old QuickTime files start straight with a movie or data atom
+  if (["moov", "mdat", "wide", "free", "skip"].includes(box)) return "video/quicktime";
+
+  // EBML header; the DocType tells WebM from other Matroska files
+  if (head.readUInt32BE(0) === 0x1a45dfa3) {
+    return head.includes("webm", 0, "latin1") ? "video/webm" : "video/x-matroska";
+  }
+  return undefined;
+}
+
+// The real type of a staged upload. The client's claim is only checked for
+// being an image or video like the content; within that kind the sniffed
+// type wins, since browsers label e.g. MOV files as MP4 inconsistently.
+export async function verifyMediaType(filePath: string, claimedType: string): Promise<AllowedMediaType> {
+  const handle = await fs.promises.open(filePath, "r");
+  let head: Buffer;
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(HEAD_BYTES), 0, HEAD_BYTES, 0);
+    head = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  const sniffed = sniffMediaType(head);
+  if (!sniffed) {
+    throw new UnsupportedMediaError(
+      `Unsupported file format; allowed formats are ${ALLOWED_MEDIA_TYPES.join(", ")}`,
+    );
+  }
+
+  const claimedKind = claimedType.split("/")[0];
+  if ((claimedKind === "image" || claimedKind === "video") && claimedKind !== sniffed.split("/")[0]) {
+    throw new UnsupportedMediaError(`File content is ${sniffed} but it was uploaded as ${claimedType}`);
+  }
+  return sniffed;
+}
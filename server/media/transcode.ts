@@ -0,0 +1,133 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import type { MediaFile, Playback } from "@shared/schema";
+import { config } from "../config";
+import { storage, blobStore } from "../storage";
+import { hashFile } from "../upload";
+import { defineJob, enqueueJob } from "../jobs";
+import { withLocalCopy, probeVideo, runFfmpeg, type VideoProbe } from "./ffmpeg";
+import { videoMetadataArgs } from "./privacy";
+
+// Every video gets an H.264/AAC MP4 copy for playback: browser recordings are
+// VP9 WebM, which iPhones cannot play, and iPhones record HEVC, which many
+// other browsers cannot. The original stays available for download.
+
+// Longest side of a transcoded video; phone 4K is far more than a gallery needs
+const MAX_DIMENSION = 1920;
+
+export function playbackKey(mediaId: number): string {
+  return `playback/${mediaId}.mp4`;
+}
+
+export function getPlayback(media: MediaFile): Playback | undefined {
+  return media.metadata?.playback;
+}
+
+// The playback copy when it is ready and was made under the current privacy policy
+export function readyPlayback(media: MediaFile): Playback | undefined {
+  const playback = getPlayback(media);
+  return playback?.status === "ready" && playback.policy === config.privacyPolicy ? playback : undefined;
+}
+
+async function recordPlayback(id: number, playback: Omit<Playback, "updatedAt">) {
+  await storage.updateMediaMetadata(id, {
+    playback: { ...playback, updatedAt: new Date().toISOString() },
+  });
+}
+
+// Already playable everywhere, so the streams only need copying into MP4
+function canRemux(probe: VideoProbe): boolean {
+  return (
+    probe.videoCodec === "h264" &&
+    probe.pixelFormat === "yuv420p" &&
+    (probe.audioCodec === undefined || probe.audioCodec === "aac")
+  );
+}
+
+const encodeArgs = [
+  "-c:v", "libx264",
+  "-preset", "veryfast",
+  "-crf", "23",
+  "-profile:v", "high",
+  "-pix_fmt", "yuv420p",
+  // Fit within the limit without upscaling; H.264 needs even dimensions
+  "-vf",
+  `scale=w='min(${MAX_DIMENSION},iw)':h='min(${MAX_DIMENSION},ih)':force_original_aspect_ratio=decrease,` +
+    "scale=trunc(iw/2)*2:trunc(ih/2)*2",
+  "-c:a", "aac",
+  "-b:a", "128k",
+  "-ac", "2",
+];
+
+async function createPlayback(media: MediaFile): Promise<Playback> {
+  const policy = config.privacyPolicy;
+  await fs.promises.mkdir(config.uploadTmpDir, { recursive: true });
+  const outputPath = path.join(config.uploadTmpDir, `${crypto.randomUUID()}.mp4`);
+
+  try {
+    const transcoded = await withLocalCopy(media, async (inputPath) => {
+      const remux = canRemux(await probeVideo(inputPath));
+      await runFfmpeg([
+        "-i", inputPath,
+        "-map", "0:v:0",
+        "-map", "0:a:0?",
+        ...(remux ? ["-c", "copy"] : encodeArgs),
+        ...(await videoMetadataArgs(inputPath, policy)),
+        "-movflags", "+faststart",
+        "-f", "mp4",
+        "-y", outputPath,
+      ]);
+      return !remux;
+    });
+
+    const { size } = await fs.promises.stat(outputPath);
+    const sha256 = await hashFile(outputPath);
+    await blobStore.put(playbackKey(media.id), { filePath: outputPath }, "video/mp4");
+    return { status: "ready", policy, transcoded, size, sha256, updatedAt: new Date().toISOString() };
+  } finally {
+    await fs.promises.rm(outputPath, { force: true });
+  }
+}
+
+// Guests can play the original meanwhile, so the tile is not held as processing
+defineJob("transcode", {
+  lane: "video",
+  maxAttempts: 2,
+  affectsStatus: false,
+  async run(media) {
+    const playback = await createPlayback(media);
+    const updated = await storage.updateMediaMetadata(media.id, { playback });
+    if (!updated) {
+      // Deleted while encoding
+      await blobStore.delete(playbackKey(media.id));
+    }
+  },
+  async onFailure(media, _job, lastError, willRetry) {
+    await recordPlayback(media.id, { status: willRetry ? "pending" : "failed", lastError });
+  },
+});
+
+export async function scheduleTranscode(media: MediaFile) {
+  if (!media.fileType.startsWith("video/")) return;
+
+  await recordPlayback(media.id, { status: "pending" });
+  await enqueueJob(media.id, "transcode");
+}
+
+// Picks up videos uploaded before transcoding existed, interrupted by a
+// restart, or made under a different privacy policy
+export async function resumePendingTranscodes() {
+  for (const media of await storage.getAllMedia()) {
+    if (!media.fileType.startsWith("video/")) continue;
+
+    const playback = getPlayback(media);
+    if (playback?.status === "failed" || readyPlayback(media)) continue;
+    await scheduleTranscode(media);
+  }
+}
+
+// A pending record can still have the copy made under an earlier policy behind it
+export async function deletePlayback(media: MediaFile) {
+  await blobStore.delete(playbackKey(media.id));
+}
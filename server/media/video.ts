@@ -0,0 +1,19 @@
+import type { MediaFile } from "@shared/schema";
+import { withLocalCopy, probeVideo, extractFrame } from "./ffmpeg";
+import { createImageRenditions } from "./renditions";
+
+// Stores a poster frame as the video's renditions so it is served by the
+// same thumbnail route as photos.
+export async function createVideoPoster(media: MediaFile) {
+  await withLocalCopy(media, async (filePath) => {
+    const probe = await probeVideo(filePath);
+
+    // One second in skips fade-ins and black first frames; short clips use their midpoint
+    const at = probe.duration ? Math.min(1, probe.duration / 2) : 0;
+    const frame = await extractFrame(filePath, at);
+    if (!frame.length) {
+      throw new Error("ffmpeg produced no poster frame");
+    }
+    await createImageRenditions(media, frame);
+  });
+}
@@ -0,0 +1,83 @@
+import { v2 as cloudinary } from "cloudinary";
+import { pipeline } from "stream/promises";
+import type { MediaFile, MirrorState } from "@shared/schema";
+import { config } from "./config";
+import { storage, blobStore, mediaBlobKey } from "./storage";
+import { defineJob, enqueueJob } from "./jobs";
+
+// Uploads are saved locally first; copying them to Cloudinary happens in the
+// background so a missing or flaky connection never fails an upload.
+
+const MAX_ATTEMPTS = 5;
+
+function mirrorState(media: MediaFile): MirrorState | undefined {
+  return media.metadata?.cloudinary;
+}
+
+async function recordState(id: number, state: Omit<MirrorState, "updatedAt">, extra = {}) {
+  await storage.updateMediaMetadata(id, {
+    ...extra,
+    cloudinary: { ...state, updatedAt: new Date().toISOString() },
+  });
+}
+
+// Initial metadata for a new upload, or nothing when mirroring is disabled
+export function initialMirrorMetadata(): { cloudinary?: MirrorState } {
+  if (!config.cloudinary.mirror) return {};
+  return { cloudinary: { status: "pending", attempts: 0, updatedAt: new Date().toISOString() } };
+}
+
+async function uploadToCloudinary(media: MediaFile): Promise<string> {
+  const source = await blobStore.stream(mediaBlobKey(media));
+  if (!source) {
+    throw new Error("Media bytes not found in blob store");
+  }
+
+  return new Promise<string>((resolve, reject) => {
+    const stream = cloudinary.uploader.upload_stream(
+      { resource_type: "auto", folder: config.cloudinary.folder },
+      (error, result) => {
+        if (error || !result) {
+          reject(error || new Error("No result from Cloudinary"));
+        } else {
+          resolve(result.secure_url);
+        }
+      },
+    );
+    pipeline(source, stream).catch(reject);
+  });
+}
+
+defineJob("mirror", {
+  lane: "network",
+  maxAttempts: MAX_ATTEMPTS,
+  affectsStatus: false,
+  async run(media, job) {
+    await recordState(media.id, { status: "uploading", attempts: job.attempts });
+    const url = await uploadToCloudinary(media);
+    // cloudinaryUrl is kept at the top level for clients that read it directly
+    await recordState(media.id, { status: "uploaded", attempts: job.attempts, url }, { cloudinaryUrl: url });
+  },
+  async onFailure(media, job, lastError, willRetry) {
+    await recordState(media.id, { status: willRetry ? "pending" : "failed", attempts: job.attempts, lastError });
+  },
+});
+
+// A mirror that already failed starts a fresh round of attempts, e.g. for a manual retry
+export async function scheduleMirror(media: MediaFile) {
+  if (!config.cloudinary.mirror) return;
+  await enqueueJob(media.id, "mirror");
+}
+
+// Picks up mirrors started before they were queued as jobs; ones already
+// queued are left as they are
+export async function resumePendingMirrors() {
+  if (!config.cloudinary.mirror) return;
+
+  for (const media of await storage.getAllMedia()) {
+    const state = mirrorState(media);
+    if (state?.status === "pending" || state?.status === "uploading") {
+      await scheduleMirror(media);
+    }
+  }
+}
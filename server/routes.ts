@@ -1,18 +1,53 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, blobStore } from "./storage";
 import multer from "multer";
 import { z } from "zod";
-import { insertMediaSchema } from "@shared/schema";
+import { gallerySettingsSchema, mediaQuerySchema, type MediaFile, type UploadResult } from "@shared/schema";
+import { hammingDistance, SIMILARITY_THRESHOLD } from "@shared/phash";
 import path from "path";
+import fs from "fs";
 import crypto from "crypto";
 import { Router } from 'express';
 import { v2 as cloudinary } from 'cloudinary';
+import { config } from "./config";
+import { scheduleMirror } from "./mirror";
+import { stagingStorage, removeStagedFiles } from "./upload";
+import { sendMedia, CACHE_IMMUTABLE, CACHE_REVALIDATE, CACHE_PRIVATE, type MediaBody } from "./serve";
+import { isAdmin, requireAdmin } from "./auth";
+import { ingestStagedFile, uploadFieldsSchema } from "./ingest";
+import { tusRouter } from "./tus";
+import { addBoothFrame, boothFrameKey, getBoothFrame, removeBoothFrame, TooManyFramesError } from "./booth";
+import { UnsupportedMediaError } from "./media/sniff";
+import {
+  needsPublicCopy,
+  ensurePublicCopy,
+  deletePublicCopy,
+  publicCopyKey,
+  publicMetadata,
+  PublicCopyUnavailableError,
+} from "./media/privacy";
+import { needsDisplayCopy, ensureDisplayCopy, deleteDisplayCopy, displayCopyKey } from "./media/display";
+import { readyPlayback, scheduleTranscode, deletePlayback, playbackKey } from "./media/transcode";
+import {
+  getRenditions,
+  ensureImageRenditions,
+  deleteRenditions,
+  pickRendition,
+  renditionKey,
+  renditionContentType,
+} from "./media/renditions";
+
+// Los archivos se escriben en disco mientras llegan, nunca se guardan en memoria
+const stagedUploads = stagingStorage({
+  dir: config.uploadTmpDir,
+  maxBytes: config.maxUploadBytes,
+});
 
 const router = Router();
 
 // Configuración de multer para Cloudinary
-const cloudinaryUpload = multer({ storage: multer.memoryStorage() });
+const cloudinaryUpload = multer({ storage: stagedUploads });
 
 // Ruta para subir un archivo a Cloudinary
 router.post('/upload', cloudinaryUpload.single('file'), async (req, res) => {
@@ -23,7 +58,18 @@ router.post('/upload', cloudinaryUpload.single('file'), async (req, res) => {
       return res.status(400).json({ message: 'No se envió ningún archivo' });
     }
 
+    if (file.rejected) {
+      await removeStagedFiles([file]);
+      return res.status(413).json({ message: file.rejected });
+    }
+
+    if (!config.cloudinary.configured) {
+      await removeStagedFiles([file]);
+      return res.status(503).json({ message: 'Cloudinary no está configurado' });
+    }
+
     const stream = cloudinary.uploader.upload_stream({}, (error, result) => {
+      removeStagedFiles([file]).catch(console.error);
       if (error) {
         console.error(error);
         return res.status(500).json({ error: 'Error subiendo el archivo' });
@@ -31,7 +77,7 @@ router.post('/upload', cloudinaryUpload.single('file'), async (req, res) => {
       res.json({ url: result?.secure_url });
     });
 
-    stream.end(file.buffer);
+    fs.createReadStream(file.path).pipe(stream);
 
   } catch (error) {
     console.error(error);
@@ -42,31 +88,150 @@ router.post('/upload', cloudinaryUpload.single('file'), async (req, res) => {
 export default router;
 
 // Configuración de multer para almacenamiento interno
-const uploadInternal = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 50 * 1024 * 1024,
-  },
-  fileFilter: (_req, file, cb) => {
-    if (file.mimetype.startsWith("image/") || file.mimetype.startsWith("video/")) {
-      cb(null, true);
-    } else {
-      cb(null, false);
-    }
-  },
+// Every file is staged; its content decides whether it is accepted
+const uploadInternal = multer({ storage: stagedUploads });
+
+// The stored bytes behind an id never change, so the content hash is a strong ETag
+function originalMedia(media: MediaFile, cacheControl: string): MediaBody {
+  return {
+    size: media.fileSize,
+    contentType: media.fileType,
+    etag: media.contentHash ? `"${media.contentHash}"` : undefined,
+    lastModified: new Date(media.uploadDate),
+    cacheControl,
+    open: async (range) => (await storage.getMediaStream(media.id, range))?.stream,
+  };
+}
+
+// The JPEG standing in for an original browsers cannot show
+async function displayMedia(media: MediaFile, cacheControl: string): Promise<MediaBody> {
+  const display = await ensureDisplayCopy(media);
+  const key = displayCopyKey(media.id);
+  return {
+    size: display.size,
+    contentType: display.contentType,
+    etag: `"${display.sha256}"`,
+    lastModified: new Date(media.uploadDate),
+    cacheControl,
+    open: (range) => blobStore.stream(key, range),
+  };
+}
+
+// What guests get: the original, or a copy with GPS and serials removed
+// depending on the privacy policy
+async function publicMedia(media: MediaFile, cacheControl: string): Promise<MediaBody> {
+  if (needsDisplayCopy(media) && config.privacyPolicy !== "off") {
+    // HEIC cannot be re-encoded here, so the stripped display copy stands in
+    return displayMedia(media, cacheControl);
+  }
+  if (!needsPublicCopy(media)) {
+    return originalMedia(media, cacheControl);
+  }
+
+  const publicCopy = await ensurePublicCopy(media);
+  const key = publicCopyKey(media.id);
+  return {
+    size: publicCopy.size,
+    contentType: publicCopy.contentType,
+    etag: `"${publicCopy.sha256}"`,
+    lastModified: new Date(media.uploadDate),
+    cacheControl,
+    open: (range) => blobStore.stream(key, range),
+  };
+}
+
+// Stripping failed recently; the original is never sent in its place
+function copyUnavailable(res: Response) {
+  res.setHeader("Retry-After", "600");
+  return res.status(503).json({ message: "This file is being prepared, try again later" });
+}
+
+// What guests see: like publicMedia, but always in a format browsers can show
+function viewableMedia(media: MediaFile, cacheControl: string): Promise<MediaBody> {
+  return needsDisplayCopy(media) ? displayMedia(media, cacheControl) : publicMedia(media, cacheControl);
+}
+
+// The MP4 every browser can play, served in place of a video's original
+function playbackMedia(media: MediaFile): MediaBody | undefined {
+  const playback = readyPlayback(media);
+  if (!playback?.size || !playback.sha256) return undefined;
+
+  const key = playbackKey(media.id);
+  return {
+    size: playback.size,
+    contentType: "video/mp4",
+    etag: `"${playback.sha256}"`,
+    lastModified: new Date(playback.updatedAt),
+    cacheControl: CACHE_REVALIDATE,
+    open: (range) => blobStore.stream(key, range),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+const boothFrameFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+});
+
+const similarQuerySchema = z.object({
+  maxDistance: z.coerce.number().int().min(0).max(64).default(SIMILARITY_THRESHOLD),
+});
+
+const thumbnailQuerySchema = z.object({
+  size: z.coerce.number().int().positive().default(320),
+  format: z.enum(["webp", "jpeg"]).optional(),
+  // The media's content hash; ids are per-gallery counters, so only a URL
+  // carrying it can be cached for good
+  v: z.string().optional(),
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  app.get("/api/media", async (_req: Request, res: Response) => {
+  // Subidas reanudables (tus) para archivos grandes y conexiones inestables
+  app.use("/api/uploads", tusRouter);
+
+  app.get("/api/media", async (req: Request, res: Response) => {
     try {
-      const media = await storage.getAllMedia();
-      return res.json(media);
+      const query = mediaQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query", errors: query.error.flatten() });
+      }
+
+      const page = await storage.getMediaPage(query.data);
+      if (isAdmin(req)) {
+        return res.json(page);
+      }
+      return res.json({
+        ...page,
+        items: page.items.map((item) => ({ ...item, metadata: publicMetadata(item.metadata) })),
+      });
     } catch (error) {
       console.error("Error fetching media:", error);
       return res.status(500).json({ message: "Failed to fetch media" });
     }
   });
 
+  // Lets clients skip sending bytes the gallery already has
+  app.get("/api/media/by-hash/:sha256", async (req: Request, res: Response) => {
+    try {
+      const sha256 = req.params.sha256.toLowerCase();
+      if (!/^[0-9a-f]{64}$/.test(sha256)) {
+        return res.status(400).json({ message: "Invalid SHA-256 hash" });
+      }
+
+      const mediaInfo = await storage.getMediaByHash(sha256);
+      if (!mediaInfo) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+
+      return res.json({ id: mediaInfo.id });
+    } catch (error) {
+      console.error("Error looking up media by hash:", error);
+      return res.status(500).json({ message: "Failed to look up media" });
+    }
+  });
+
   app.get("/api/media/:id", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
@@ -74,14 +239,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid ID format" });
       }
 
-      const mediaData = await storage.getMediaFile(id);
-      if (!mediaData) {
+      const mediaInfo = await storage.getMediaById(id);
+      if (!mediaInfo) {
         return res.status(404).json({ message: "Media not found" });
       }
 
-      res.setHeader("Content-Type", mediaData.mediaInfo.fileType);
-      return res.send(mediaData.data);
+      if (!mediaInfo.fileType.startsWith("video/")) {
+        // Which copy is served follows the privacy policy, so the URL is not immutable
+        return sendMedia(req, res, await viewableMedia(mediaInfo, CACHE_REVALIDATE));
+      }
+
+      const playback = playbackMedia(mediaInfo);
+      if (playback) {
+        return sendMedia(req, res, playback);
+      }
+      if (mediaInfo.metadata?.playback?.status === "ready") {
+        // Made under an earlier privacy policy
+        scheduleTranscode(mediaInfo).catch((error) => console.error("Error scheduling transcode:", error));
+      }
+      // The same URL switches to the MP4 once it is ready, so it cannot be cached for good
+      return sendMedia(req, res, await publicMedia(mediaInfo, CACHE_REVALIDATE));
     } catch (error) {
+      if (error instanceof PublicCopyUnavailableError) return copyUnavailable(res);
       console.error("Error serving media:", error);
       return res.status(500).json({ message: "Failed to serve media file" });
     }
@@ -94,23 +273,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid ID format" });
       }
 
-      const mediaData = await storage.getMediaFile(id);
-      if (!mediaData) {
+      const mediaInfo = await storage.getMediaById(id);
+      if (!mediaInfo) {
         return res.status(404).json({ message: "Media not found" });
       }
 
-      res.setHeader("Content-Type", mediaData.mediaInfo.fileType);
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename="${mediaData.mediaInfo.fileName}"`
-      );
-      return res.send(mediaData.data);
+      const body = await publicMedia(mediaInfo, CACHE_REVALIDATE);
+      // A HEIC served as its JPEG copy is named to match
+      const fileName = body.contentType === "image/jpeg" && needsDisplayCopy(mediaInfo)
+        ? `${path.parse(mediaInfo.fileName).name}.jpg`
+        : mediaInfo.fileName;
+      // Adds an RFC 5987 filename* for names outside Latin-1, e.g. from tus uploads
+      res.attachment(fileName);
+      return sendMedia(req, res, body);
     } catch (error) {
+      if (error instanceof PublicCopyUnavailableError) return copyUnavailable(res);
       console.error("Error downloading media:", error);
       return res.status(500).json({ message: "Failed to download media file" });
     }
   });
 
+  // The untouched upload, embedded metadata included
+  app.get("/api/media/:id/original", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const mediaInfo = await storage.getMediaById(id);
+      if (!mediaInfo) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+
+      res.attachment(mediaInfo.fileName);
+      return sendMedia(req, res, originalMedia(mediaInfo, CACHE_PRIVATE));
+    } catch (error) {
+      console.error("Error downloading original:", error);
+      return res.status(500).json({ message: "Failed to download original file" });
+    }
+  });
+
   app.get("/api/media/:id/thumbnail", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
@@ -123,31 +326,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Media not found" });
       }
 
-      if (mediaInfo.fileType.startsWith("video/")) {
+      const query = thumbnailQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid thumbnail parameters" });
+      }
+
+      const renditions = getRenditions(mediaInfo);
+      if (!renditions.length && mediaInfo.fileType.startsWith("video/")) {
+        // Poster extraction failed or has not run; describe the video instead
         res.setHeader("Content-Type", "image/svg+xml");
+        res.setHeader("Cache-Control", CACHE_REVALIDATE);
+        res.setHeader("X-Content-Type-Options", "nosniff");
         const placeholderSvg = `
           <svg xmlns="http://www.w3.org/2000/svg" width="400" height="300" viewBox="0 0 400 300">
             <rect width="400" height="300" fill="#333333" />
             <text x="50%" y="50%" fill="#ffffff" font-family="Arial" font-size="24" text-anchor="middle">
-              Video: ${mediaInfo.fileName}
+              Video: ${escapeXml(mediaInfo.fileName)}
             </text>
           </svg>
         `;
         return res.send(placeholderSvg);
-      } else {
-        const mediaData = await storage.getMediaFile(id);
-        if (!mediaData) {
-          return res.status(404).json({ message: "Media file not found" });
-        }
-        res.setHeader("Content-Type", mediaInfo.fileType);
-        return res.send(mediaData.data);
       }
+
+      if (!renditions.length) {
+        // Uploads from before renditions existed get them on first request
+        ensureImageRenditions(mediaInfo).catch((error) => {
+          console.error("Error generating renditions:", error);
+        });
+        return sendMedia(req, res, await viewableMedia(mediaInfo, CACHE_REVALIDATE));
+      }
+
+      let format = query.data.format;
+      if (!format) {
+        res.vary("Accept");
+        format = req.accepts(["image/webp", "image/jpeg"]) === "image/webp" ? "webp" : "jpeg";
+      }
+
+      const rendition = pickRendition(renditions, query.data.size, format);
+      if (!rendition) {
+        return sendMedia(req, res, await viewableMedia(mediaInfo, CACHE_REVALIDATE));
+      }
+
+      const key = renditionKey(id, rendition.target, rendition.format);
+      return sendMedia(req, res, {
+        size: rendition.size,
+        contentType: renditionContentType(rendition.format),
+        etag: mediaInfo.contentHash
+          ? `"${mediaInfo.contentHash}-${rendition.target}.${rendition.format}"`
+          : undefined,
+        lastModified: new Date(mediaInfo.uploadDate),
+        cacheControl:
+          mediaInfo.contentHash && query.data.v === mediaInfo.contentHash ? CACHE_IMMUTABLE : CACHE_REVALIDATE,
+        open: (range) => blobStore.stream(key, range),
+      });
     } catch (error) {
+      if (error instanceof PublicCopyUnavailableError) return copyUnavailable(res);
       console.error("Error serving thumbnail:", error);
       return res.status(500).json({ message: "Failed to serve thumbnail" });
     }
   });
 
+  // Near-duplicates of an image, closest first
+  app.get("/api/media/:id/similar", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const query = similarQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid similarity parameters" });
+      }
+
+      const mediaInfo = await storage.getMediaById(id);
+      if (!mediaInfo) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+
+      const dHash = mediaInfo.metadata?.perceptual?.dHash;
+      if (!dHash) {
+        return res.status(409).json({ message: "No perceptual hash for this media" });
+      }
+
+      const similar = (await storage.getAllMedia())
+        .flatMap((item) => {
+          const other = item.metadata?.perceptual?.dHash;
+          if (item.id === id || !other) return [];
+          const distance = hammingDistance(dHash, other);
+          return distance <= query.data.maxDistance ? [{ media: item, distance }] : [];
+        })
+        .sort((a, b) => a.distance - b.distance)
+        .map(({ media, distance }) => ({
+          ...media,
+          metadata: isAdmin(req) ? media.metadata : publicMetadata(media.metadata),
+          distance,
+        }));
+
+      return res.json(similar);
+    } catch (error) {
+      console.error("Error finding similar media:", error);
+      return res.status(500).json({ message: "Failed to find similar media" });
+    }
+  });
+
   app.post(
   "/api/media/upload",
   uploadInternal.array("media"),
@@ -158,57 +440,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const uploadedFiles = req.files as Express.Multer.File[];
-      const uploadResults = [];
+      const uploadResults: UploadResult[] = [];
+
+      const fields = uploadFieldsSchema.safeParse(req.body);
+      if (!fields.success) {
+        return res.status(400).json({ message: "Invalid upload fields" });
+      }
 
       for (const file of uploadedFiles) {
-        try {
-          const mediaData = {
-            fileName: file.originalname,
-            fileType: file.mimetype,
-            fileSize: file.size,
-            uploadDate: new Date().toISOString(),
-            metadata: {
-              originalName: file.originalname,
-            },
-          };
-
-          insertMediaSchema.parse(mediaData);
-
-          // ✅ Subir a Cloudinary
-          const cloudinaryUrl = await new Promise<string>((resolve, reject) => {
-            const stream = cloudinary.uploader.upload_stream(
-              { resource_type: "auto" },
-              (error, result) => {
-                if (error || !result) {
-                  reject(error || new Error("No result from Cloudinary"));
-                } else {
-                  resolve(result.secure_url);
-                }
-              }
-            );
-            stream.end(file.buffer);
-          });
-
-          // ✅ Agregar la URL de Cloudinary en los metadatos
-          mediaData.metadata.cloudinaryUrl = cloudinaryUrl;
-
-          // ✅ Guardar también en almacenamiento local
-          const mediaRecord = await storage.createMedia(mediaData, file.buffer);
-
-          uploadResults.push({
-            id: mediaRecord.id,
-            fileName: mediaRecord.fileName,
-            cloudinaryUrl,
-            status: "success",
-          });
-        } catch (fileError) {
-          console.error("Error processing file:", file.originalname, fileError);
-          uploadResults.push({
-            fileName: file.originalname,
-            status: "error",
-            message: fileError instanceof Error ? fileError.message : "Unknown error",
-          });
+        if (file.rejected) {
+          uploadResults.push({ fileName: file.originalname, status: "error", message: file.rejected });
+          continue;
         }
+
+        uploadResults.push(
+          await ingestStagedFile({
+            ...fields.data,
+            path: file.path,
+            originalName: file.originalname,
+            claimedType: file.mimetype,
+            size: file.size,
+            sha256: file.sha256!,
+          }),
+        );
       }
 
       return res.status(201).json({
@@ -221,10 +475,131 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: "Failed to process uploaded files",
         error: error instanceof Error ? error.message : "Unknown error",
       });
+    } finally {
+      // Anything not moved into the blob store is left over in the temp directory
+      if (Array.isArray(req.files)) {
+        await removeStagedFiles(req.files);
+      }
     }
   }
 );
 
+  app.post("/api/media/:id/mirror", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      if (!config.cloudinary.mirror) {
+        return res.status(409).json({ message: "Cloudinary mirroring is disabled" });
+      }
+
+      const mediaInfo = await storage.getMediaById(id);
+      if (!mediaInfo) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+
+      await scheduleMirror(mediaInfo);
+      return res.status(202).json({ message: "Mirror scheduled" });
+    } catch (error) {
+      console.error("Error scheduling mirror:", error);
+      return res.status(500).json({ message: "Failed to schedule mirror" });
+    }
+  });
+
+  app.get("/api/settings", async (_req: Request, res: Response) => {
+    try {
+      return res.json(await storage.getSettings());
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      return res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/settings", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const settings = gallerySettingsSchema.safeParse(req.body);
+      if (!settings.success) {
+        return res.status(400).json({ message: "Invalid settings", errors: settings.error.flatten() });
+      }
+
+      // Frames are only added or removed with their images, below
+      const current = await storage.getSettings();
+      return res.json(await storage.updateSettings({
+        ...settings.data,
+        booth: { ...settings.data.booth, frames: current.booth.frames },
+      }));
+    } catch (error) {
+      console.error("Error updating settings:", error);
+      return res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+
+  app.get("/api/booth/frames/:id", async (req: Request, res: Response) => {
+    try {
+      const frame = await getBoothFrame(req.params.id);
+      if (!frame) {
+        return res.status(404).json({ message: "Frame not found" });
+      }
+
+      // A frame's id changes whenever its image does
+      const key = boothFrameKey(frame.id);
+      return sendMedia(req, res, {
+        size: frame.size,
+        contentType: "image/png",
+        etag: `"${frame.id}"`,
+        cacheControl: CACHE_IMMUTABLE,
+        open: (range) => blobStore.stream(key, range),
+      });
+    } catch (error) {
+      console.error("Error serving booth frame:", error);
+      return res.status(500).json({ message: "Failed to serve frame" });
+    }
+  });
+
+  app.post("/api/booth/frames", requireAdmin, uploadInternal.single("frame"), async (req: Request, res: Response) => {
+    const file = req.file;
+    try {
+      if (!file) {
+        return res.status(400).json({ message: "No frame uploaded" });
+      }
+      if (file.rejected) {
+        return res.status(413).json({ message: file.rejected });
+      }
+
+      const fields = boothFrameFieldsSchema.safeParse(req.body);
+      if (!fields.success) {
+        return res.status(400).json({ message: "A frame needs a name" });
+      }
+
+      return res.status(201).json(await addBoothFrame(file.path, fields.data.name));
+    } catch (error) {
+      if (error instanceof UnsupportedMediaError) {
+        return res.status(415).json({ message: error.message });
+      }
+      if (error instanceof TooManyFramesError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error adding booth frame:", error);
+      return res.status(500).json({ message: "Failed to add frame" });
+    } finally {
+      if (file) await removeStagedFiles([file]);
+    }
+  });
+
+  app.delete("/api/booth/frames/:id", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      if (!(await removeBoothFrame(req.params.id))) {
+        return res.status(404).json({ message: "Frame not found" });
+      }
+      return res.json({ message: "Frame removed" });
+    } catch (error) {
+      console.error("Error removing booth frame:", error);
+      return res.status(500).json({ message: "Failed to remove frame" });
+    }
+  });
+
   app.delete("/api/media/:id", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
@@ -232,11 +607,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid ID format" });
       }
 
+      const mediaInfo = await storage.getMediaById(id);
       const deleted = await storage.deleteMedia(id);
-      if (!deleted) {
+      if (!mediaInfo || !deleted) {
         return res.status(404).json({ message: "Media not found or already deleted" });
       }
 
+      await deleteRenditions(mediaInfo);
+      await deletePublicCopy(mediaInfo);
+      await deletePlayback(mediaInfo);
+      await deleteDisplayCopy(mediaInfo);
+      await storage.deleteJobsForMedia(id);
+
       return res.json({ message: "Media deleted successfully" });
     } catch (error) {
       console.error("Error deleting media:", error);
@@ -0,0 +1,103 @@
+import type { Request, Response } from "express";
+import type { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ByteRange } from "./blob";
+
+// A URL whose bytes can never change, e.g. a stored original or a rendition
+export const CACHE_IMMUTABLE = "public, max-age=31536000, immutable";
+// Cacheable, but checked with the server (ETag / Last-Modified) before reuse
+export const CACHE_REVALIDATE = "public, no-cache";
+// Only for the requesting user, e.g. admin-only originals
+export const CACHE_PRIVATE = "private, no-cache";
+
+export interface MediaBody {
+  size: number;
+  contentType: string;
+  // Strong validator, quoted as it appears in the ETag header
+  etag?: string;
+  lastModified?: Date;
+  cacheControl: string;
+  // Opens the whole body, or just `range`; undefined when the bytes are gone
+  open(range?: ByteRange): Promise<Readable | undefined>;
+}
+
+// Headers are already out once the body starts, so a failing source can only
+// cut the response short.
+async function streamToResponse(stream: Readable, res: Response) {
+  try {
+    await pipeline(stream, res);
+  } catch (error) {
+    console.error("Error streaming media:", error);
+    res.destroy();
+  }
+}
+
+// Picks the single byte range to serve, "unsatisfiable" for a 416, or
+// undefined to send the full body. Multi-range requests get the full body,
+// which RFC 9110 allows and every media player copes with.
+function requestedRange(req: Request, body: MediaBody): ByteRange | "unsatisfiable" | undefined {
+  if (!req.headers.range || !rangeStillValid(req, body)) return undefined;
+
+  const ranges = req.range(body.size, { combine: true });
+  if (ranges === -1) return "unsatisfiable";
+  if (ranges === -2 || ranges === undefined) return undefined;
+  if (ranges.type !== "bytes" || ranges.length !== 1) return undefined;
+  return { start: ranges[0].start, end: ranges[0].end };
+}
+
+// If-Range: a client resuming a download only wants the slice if the
+// representation is still the one it started with.
+function rangeStillValid(req: Request, body: MediaBody): boolean {
+  const ifRange = req.get("If-Range");
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+    return ifRange === body.etag;
+  }
+  return body.lastModified !== undefined && body.lastModified.toUTCString() === ifRange;
+}
+
+// Sends stored media with Range support so browsers can seek in videos, and
+// with validators so repeat requests are answered with a 304.
+export async function sendMedia(req: Request, res: Response, body: MediaBody) {
+  res.setHeader("Accept-Ranges", "bytes");
+  // Browsers must never second-guess the stored type, e.g. render uploaded HTML
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("Cache-Control", body.cacheControl);
+  if (body.etag) {
+    res.setHeader("ETag", body.etag);
+  }
+  if (body.lastModified && !isNaN(body.lastModified.getTime())) {
+    res.setHeader("Last-Modified", body.lastModified.toUTCString());
+  }
+
+  // req.fresh evaluates If-None-Match / If-Modified-Since against the headers above
+  if (req.fresh) {
+    return res.status(304).end();
+  }
+
+  const range = requestedRange(req, body);
+  if (range === "unsatisfiable") {
+    res.setHeader("Content-Range", `bytes */${body.size}`);
+    return res.status(416).json({ message: "Requested range not satisfiable" });
+  }
+
+  const stream = await body.open(range);
+  if (!stream) {
+    return res.status(404).json({ message: "Media file not found" });
+  }
+
+  res.setHeader("Content-Type", body.contentType);
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${body.size}`);
+    res.setHeader("Content-Length", range.end - range.start + 1);
+  } else {
+    res.setHeader("Content-Length", body.size);
+  }
+
+  if (req.method === "HEAD") {
+    stream.destroy();
+    return res.end();
+  }
+  return streamToResponse(stream, res);
+}
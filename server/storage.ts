@@ -1,5 +1,31 @@
-import { users, type User, type InsertUser, mediaFiles, type MediaFile, type InsertMedia } from "@shared/schema";
+import {
+  users,
+  type User,
+  type InsertUser,
+  mediaFiles,
+  type MediaFile,
+  type InsertMedia,
+  type MediaMetadata,
+  appSettings,
+  gallerySettingsSchema,
+  type GallerySettings,
+  displayFileTypeFor,
+  type ProcessingStatus,
+  mediaJobs,
+  type MediaJob,
+  type InsertMediaJob,
+  captureSortKey,
+  mediaCursor,
+  type MediaQuery,
+  type MediaSort,
+  type MediaPage,
+} from "@shared/schema";
+import { and, asc, desc, eq, gte, inArray, isNull, like, lt, sql, type SQL } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { config } from "./config";
+import { createBlobStore, type BlobSource, type BlobStore, type ByteRange } from "./blob";
 import * as fs from 'fs';
+import type { Readable } from 'stream';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import { fileURLToPath } from 'url';
@@ -8,7 +34,8 @@ import { fileURLToPath } from 'url';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Create a directory for storing the media files
+// Local directory for media files (with the local blob driver) and for the
+// MemStorage manifest
 const mediaDir = path.join(__dirname, '..', 'media_storage');
 
 // Ensure the media directory exists
@@ -16,30 +43,307 @@ if (!fs.existsSync(mediaDir)) {
   fs.mkdirSync(mediaDir, { recursive: true });
 }
 
+export function mediaBlobKey(media: MediaFile): string {
+  return `${media.id}_${media.fileName}`;
+}
+
+function mediaSortKey(media: MediaFile, sort: MediaSort): string {
+  return sort === "captured" ? (media.capturedAt ?? media.uploadDate) : media.uploadDate;
+}
+
+// Ascending by sort key, then id, so every item has a distinct position
+function compareMedia(a: MediaFile, b: MediaFile, sort: MediaSort): number {
+  const aKey = mediaSortKey(a, sort);
+  const bKey = mediaSortKey(b, sort);
+  if (aKey !== bKey) return aKey < bKey ? -1 : 1;
+  return a.id - b.id;
+}
+
+// MemStorage keeps its index in the media directory so it survives restarts.
+const MANIFEST_FILE = 'manifest.json';
+// Jobs change many times per upload, so they are kept apart from the
+// manifest and written at most once per delay
+const JOBS_FILE = 'jobs.json';
+const JOBS_WRITE_DELAY_MS = 250;
+// Processing patches each media record several times, so those writes are
+// batched the same way; new and deleted records are written straight away
+const MANIFEST_WRITE_DELAY_MS = 250;
+const STORED_FILE_PATTERN = /^(\d+)_(.+)$/;
+
+// Write-then-rename so a crash never leaves a half-written file behind
+function writeJsonFile(filePath: string, value: unknown) {
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(value));
+  fs.renameSync(tmpPath, filePath);
+}
+
+// Used to recover records for blobs that were written without a manifest entry.
+const extensionTypes: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.heif': 'image/heif',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.3gp': 'video/3gpp',
+};
+
+interface Manifest {
+  version: 1;
+  media: MediaFile[];
+  // Next id to hand out; never lowered, so a deleted item's id is not reused
+  nextId?: number;
+  settings?: GallerySettings;
+}
+
+const SETTINGS_KEY = 'gallery';
+
+// Thrown by createMedia when the same bytes are already stored
+export class DuplicateMediaError extends Error {
+  constructor(public existing: MediaFile) {
+    super(`Same content as media ${existing.id}`);
+    this.name = "DuplicateMediaError";
+  }
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = "23505";
+
+export interface ReconcileReport {
+  // Stored blobs that had no manifest entry and were added back to the index
+  recovered: MediaFile[];
+  // Stored blobs that could not be matched to a record and were left alone
+  orphans: string[];
+  // Manifest entries whose blob is gone; they are dropped from the index
+  missing: MediaFile[];
+}
+
 export interface IStorage {
+  // Called once at startup, before any requests are served
+  init(): Promise<void>;
+
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
   // Media operations
   getAllMedia(): Promise<MediaFile[]>;
+  // One page of the gallery listing, filtered and sorted as asked
+  getMediaPage(query: MediaQuery): Promise<MediaPage>;
   getMediaById(id: number): Promise<MediaFile | undefined>;
-  createMedia(media: InsertMedia, fileData: Buffer): Promise<MediaFile>;
+  getMediaByHash(contentHash: string): Promise<MediaFile | undefined>;
+  // Throws DuplicateMediaError instead of storing a second copy of the same bytes
+  createMedia(media: InsertMedia, fileData: BlobSource): Promise<MediaFile>;
+  // Shallow-merges the given keys into the record's metadata
+  updateMediaMetadata(id: number, patch: MediaMetadata): Promise<MediaFile | undefined>;
+  setProcessingStatus(id: number, status: ProcessingStatus): Promise<MediaFile | undefined>;
   deleteMedia(id: number): Promise<boolean>;
-  getMediaFile(id: number): Promise<{ data: Buffer; mediaInfo: MediaFile } | undefined>;
+  getMediaStream(id: number, range?: ByteRange): Promise<{ stream: Readable; mediaInfo: MediaFile } | undefined>;
+
+  // Settings operations
+  getSettings(): Promise<GallerySettings>;
+  updateSettings(settings: GallerySettings): Promise<GallerySettings>;
+
+  // Job operations
+  createJob(job: InsertMediaJob): Promise<MediaJob>;
+  // Queued and running jobs, oldest first
+  getUnfinishedJobs(): Promise<MediaJob[]>;
+  getJobsForMedia(mediaId: number): Promise<MediaJob[]>;
+  updateJob(id: number, patch: Partial<InsertMediaJob>): Promise<MediaJob | undefined>;
+  deleteJobsForMedia(mediaId: number): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private media: Map<number, MediaFile>;
+  private settings: GallerySettings = gallerySettingsSchema.parse({});
+  private jobs = new Map<number, MediaJob>();
+  // Media in ascending listing order, rebuilt on the first read after a change
+  private sorted = new Map<MediaSort, MediaFile[]>();
+  private jobsWrite: NodeJS.Timeout | undefined;
+  private manifestWrite: NodeJS.Timeout | undefined;
   userCurrentId: number;
   mediaCurrentId: number;
+  jobCurrentId = 1;
 
-  constructor() {
+  constructor(private blobs: BlobStore, private dir = mediaDir) {
     this.users = new Map();
     this.media = new Map();
     this.userCurrentId = 1;
     this.mediaCurrentId = 1;
+
+    fs.mkdirSync(dir, { recursive: true });
+    this.loadManifest();
+    this.loadJobs();
+  }
+
+  async init(): Promise<void> {
+    const report = await this.reconcile();
+    if (report.recovered.length || report.orphans.length || report.missing.length) {
+      console.warn(
+        `Media index reconciled: ${report.recovered.length} recovered, ` +
+          `${report.orphans.length} orphaned, ${report.missing.length} missing`,
+        report,
+      );
+    }
+  }
+
+  private get manifestPath(): string {
+    return path.join(this.dir, MANIFEST_FILE);
+  }
+
+  private loadManifest() {
+    if (!fs.existsSync(this.manifestPath)) return;
+
+    try {
+      const manifest: Manifest = JSON.parse(fs.readFileSync(this.manifestPath, 'utf8'));
+      for (const entry of manifest.media) {
+        // Entries written before a column existed get its default
+        const media: MediaFile = {
+          ...entry,
+          contentHash: entry.contentHash ?? null,
+          uploaderName: entry.uploaderName ?? null,
+          displayFileType: entry.displayFileType ?? displayFileTypeFor(entry.fileType),
+          processingStatus: entry.processingStatus ?? "ready",
+          capturedAt: entry.capturedAt ?? captureSortKey(entry.metadata?.capture),
+        };
+        this.media.set(media.id, media);
+        this.mediaCurrentId = Math.max(this.mediaCurrentId, media.id + 1);
+      }
+      this.mediaCurrentId = Math.max(this.mediaCurrentId, manifest.nextId ?? 1);
+      this.settings = gallerySettingsSchema.parse(manifest.settings ?? {});
+    } catch (error) {
+      console.error("Error reading media manifest, rebuilding from files:", error);
+    }
+  }
+
+  private saveManifest() {
+    if (this.manifestWrite) {
+      clearTimeout(this.manifestWrite);
+      this.manifestWrite = undefined;
+    }
+
+    const manifest: Manifest = {
+      version: 1,
+      media: Array.from(this.media.values()),
+      nextId: this.mediaCurrentId,
+      settings: this.settings,
+    };
+    writeJsonFile(this.manifestPath, manifest);
+  }
+
+  // Media records changed: the listing orders are stale
+  private mediaChanged() {
+    this.sorted.clear();
+    this.saveManifest();
+  }
+
+  // A record was patched in place; the write can wait for the next few patches
+  private mediaPatched() {
+    this.sorted.clear();
+    if (this.manifestWrite) return;
+    this.manifestWrite = setTimeout(() => {
+      this.manifestWrite = undefined;
+      try {
+        this.saveManifest();
+      } catch (error) {
+        console.error("Error writing media manifest:", error);
+      }
+    }, MANIFEST_WRITE_DELAY_MS);
+  }
+
+  private get jobsPath(): string {
+    return path.join(this.dir, JOBS_FILE);
+  }
+
+  private loadJobs() {
+    if (!fs.existsSync(this.jobsPath)) return;
+
+    try {
+      const jobs: MediaJob[] = JSON.parse(fs.readFileSync(this.jobsPath, 'utf8'));
+      for (const job of jobs) {
+        this.jobs.set(job.id, job);
+        this.jobCurrentId = Math.max(this.jobCurrentId, job.id + 1);
+      }
+    } catch (error) {
+      console.error("Error reading job list, starting without queued jobs:", error);
+    }
+  }
+
+  // Jobs lost to a crash before the write are picked up again from the
+  // media's processing status at startup
+  private saveJobs() {
+    if (this.jobsWrite) return;
+    this.jobsWrite = setTimeout(() => {
+      this.jobsWrite = undefined;
+      try {
+        writeJsonFile(this.jobsPath, Array.from(this.jobs.values()));
+      } catch (error) {
+        console.error("Error writing job list:", error);
+      }
+    }, JOBS_WRITE_DELAY_MS);
+  }
+
+  // Brings the index in line with the stored blobs and moves mediaCurrentId
+  // past every id in use, so new uploads never overwrite an existing blob.
+  async reconcile(): Promise<ReconcileReport> {
+    const report: ReconcileReport = { recovered: [], orphans: [], missing: [] };
+    const storedBlobs = new Map(
+      (await this.blobs.list())
+        .filter(
+          (blob) =>
+            !blob.key.includes('/') && !blob.key.startsWith(MANIFEST_FILE) && !blob.key.startsWith(JOBS_FILE),
+        )
+        .map((blob) => [blob.key, blob]),
+    );
+
+    this.media.forEach((media, id) => {
+      const key = mediaBlobKey(media);
+      if (storedBlobs.has(key)) {
+        storedBlobs.delete(key);
+      } else {
+        this.media.delete(id);
+        report.missing.push(media);
+      }
+    });
+
+    storedBlobs.forEach((blob, key) => {
+      const match = STORED_FILE_PATTERN.exec(key);
+      const fileType = extensionTypes[path.extname(key).toLowerCase()];
+      if (!match || !fileType || this.media.has(Number(match[1]))) {
+        report.orphans.push(key);
+        return;
+      }
+
+      const media: MediaFile = {
+        id: Number(match[1]),
+        fileName: match[2],
+        fileType,
+        fileSize: blob.size,
+        uploadDate: blob.lastModified.toISOString(),
+        contentHash: null,
+        uploaderName: null,
+        displayFileType: displayFileTypeFor(fileType),
+        processingStatus: "ready",
+        capturedAt: null,
+        metadata: { originalName: match[2], recovered: true },
+      };
+      this.media.set(media.id, media);
+      report.recovered.push(media);
+    });
+
+    const maxId = Math.max(0, ...Array.from(this.media.keys()));
+    this.mediaCurrentId = Math.max(this.mediaCurrentId, maxId + 1);
+
+    if (report.recovered.length || report.missing.length) {
+      this.mediaChanged();
+    }
+    return report;
   }
 
   // User Operations
@@ -65,37 +369,135 @@ export class MemStorage implements IStorage {
     return Array.from(this.media.values());
   }
 
+  private sortedMedia(sort: MediaSort): MediaFile[] {
+    let sorted = this.sorted.get(sort);
+    if (!sorted) {
+      sorted = Array.from(this.media.values()).sort((a, b) => compareMedia(a, b, sort));
+      this.sorted.set(sort, sorted);
+    }
+    return sorted;
+  }
+
+  async getMediaPage(query: MediaQuery): Promise<MediaPage> {
+    const { sort, limit, cursor, from, to } = query;
+    const sorted = this.sortedMedia(sort);
+    const ascending = query.order === "asc";
+
+    // Binary search for the first item at or after the cursor
+    let index = ascending ? 0 : sorted.length - 1;
+    if (cursor) {
+      let low = 0;
+      let high = sorted.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        const key = mediaSortKey(sorted[mid], sort);
+        if (key < cursor.sortKey || (key === cursor.sortKey && sorted[mid].id < cursor.id)) {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+      const atCursor =
+        low < sorted.length && sorted[low].id === cursor.id && mediaSortKey(sorted[low], sort) === cursor.sortKey;
+      index = ascending ? low + (atCursor ? 1 : 0) : low - 1;
+    }
+
+    const items: MediaFile[] = [];
+    let hasMore = false;
+    for (; index >= 0 && index < sorted.length; index += ascending ? 1 : -1) {
+      const media = sorted[index];
+      const key = mediaSortKey(media, sort);
+      // Past the end of the date range there is nothing left to find
+      if (ascending ? to && key >= to : from && key < from) break;
+      if (ascending ? from && key < from : to && key >= to) continue;
+      if (query.type && !media.fileType.startsWith(`${query.type}/`)) continue;
+      if (query.uploader && media.uploaderName?.toLowerCase() !== query.uploader.toLowerCase()) continue;
+
+      if (items.length === limit) {
+        hasMore = true;
+        break;
+      }
+      items.push(media);
+    }
+
+    const last = items[items.length - 1];
+    return { items, nextCursor: hasMore ? mediaCursor(mediaSortKey(last, sort), last.id) : null };
+  }
+
   async getMediaById(id: number): Promise<MediaFile | undefined> {
     return this.media.get(id);
   }
 
-  async createMedia(insertMedia: InsertMedia, fileData: Buffer): Promise<MediaFile> {
+  async getMediaByHash(contentHash: string): Promise<MediaFile | undefined> {
+    return Array.from(this.media.values()).find((media) => media.contentHash === contentHash);
+  }
+
+  async createMedia(insertMedia: InsertMedia, fileData: BlobSource): Promise<MediaFile> {
+    const existing = insertMedia.contentHash && (await this.getMediaByHash(insertMedia.contentHash));
+    if (existing) {
+      throw new DuplicateMediaError(existing);
+    }
+
     const id = this.mediaCurrentId++;
-    const media: MediaFile = { ...insertMedia, id };
-    
-    // Save the media file to disk
-    const filePath = path.join(mediaDir, `${id}_${media.fileName}`);
-    fs.writeFileSync(filePath, fileData);
-    
-    // Store the media metadata in memory
+    const media: MediaFile = {
+      ...insertMedia,
+      contentHash: insertMedia.contentHash ?? null,
+      uploaderName: insertMedia.uploaderName ?? null,
+      displayFileType: insertMedia.displayFileType ?? null,
+      processingStatus: insertMedia.processingStatus ?? "ready",
+      capturedAt: insertMedia.capturedAt ?? captureSortKey(insertMedia.metadata?.capture),
+      metadata: insertMedia.metadata ?? null,
+      id,
+    };
+
+    // Indexed before the bytes are written so a concurrent upload of the
+    // same file is seen as a duplicate
     this.media.set(id, media);
-    
+    try {
+      await this.blobs.put(mediaBlobKey(media), fileData, media.fileType);
+    } catch (error) {
+      this.media.delete(id);
+      this.sorted.clear();
+      throw error;
+    }
+
+    this.mediaChanged();
     return media;
   }
 
+  async updateMediaMetadata(id: number, patch: MediaMetadata): Promise<MediaFile | undefined> {
+    const media = this.media.get(id);
+    if (!media) return undefined;
+
+    const metadata = { ...media.metadata, ...patch };
+    const capturedAt = "capture" in patch ? captureSortKey(patch.capture) : media.capturedAt;
+    const updated: MediaFile = { ...media, metadata, capturedAt };
+    this.media.set(id, updated);
+    this.mediaPatched();
+    return updated;
+  }
+
+  async setProcessingStatus(id: number, processingStatus: ProcessingStatus): Promise<MediaFile | undefined> {
+    const media = this.media.get(id);
+    if (!media) return undefined;
+
+    const updated: MediaFile = { ...media, processingStatus };
+    this.media.set(id, updated);
+    this.mediaPatched();
+    return updated;
+  }
+
   async deleteMedia(id: number): Promise<boolean> {
     const media = this.media.get(id);
     if (!media) return false;
     
-    // Delete the file from disk
+    // Delete the bytes from the blob store
     try {
-      const filePath = path.join(mediaDir, `${id}_${media.fileName}`);
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-      }
+      await this.blobs.delete(mediaBlobKey(media));
       
-      // Remove from memory
+      // Remove from memory and from the manifest
       this.media.delete(id);
+      this.mediaChanged();
       return true;
     } catch (error) {
       console.error("Error deleting media:", error);
@@ -103,21 +505,297 @@ export class MemStorage implements IStorage {
     }
   }
 
-  async getMediaFile(id: number): Promise<{ data: Buffer; mediaInfo: MediaFile } | undefined> {
+  async getMediaStream(id: number, range?: ByteRange): Promise<{ stream: Readable; mediaInfo: MediaFile } | undefined> {
     const media = this.media.get(id);
     if (!media) return undefined;
     
     try {
-      const filePath = path.join(mediaDir, `${id}_${media.fileName}`);
-      if (!fs.existsSync(filePath)) return undefined;
+      const stream = await this.blobs.stream(mediaBlobKey(media), range);
+      if (!stream) return undefined;
       
-      const data = fs.readFileSync(filePath);
-      return { data, mediaInfo: media };
+      return { stream, mediaInfo: media };
+    } catch (error) {
+      console.error("Error reading media file:", error);
+      return undefined;
+    }
+  }
+
+  // Settings Operations
+  async getSettings(): Promise<GallerySettings> {
+    return this.settings;
+  }
+
+  async updateSettings(settings: GallerySettings): Promise<GallerySettings> {
+    this.settings = settings;
+    this.saveManifest();
+    return settings;
+  }
+
+  // Job Operations
+  async createJob(insertJob: InsertMediaJob): Promise<MediaJob> {
+    const job: MediaJob = {
+      status: "queued",
+      attempts: 0,
+      dependsOn: null,
+      lastError: null,
+      ...insertJob,
+      id: this.jobCurrentId++,
+    };
+    this.jobs.set(job.id, job);
+    this.saveJobs();
+    return job;
+  }
+
+  async getUnfinishedJobs(): Promise<MediaJob[]> {
+    return Array.from(this.jobs.values()).filter((job) => job.status === "queued" || job.status === "running");
+  }
+
+  async getJobsForMedia(mediaId: number): Promise<MediaJob[]> {
+    return Array.from(this.jobs.values()).filter((job) => job.mediaId === mediaId);
+  }
+
+  async updateJob(id: number, patch: Partial<InsertMediaJob>): Promise<MediaJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updated: MediaJob = { ...job, ...patch, id };
+    this.jobs.set(id, updated);
+    this.saveJobs();
+    return updated;
+  }
+
+  async deleteJobsForMedia(mediaId: number): Promise<void> {
+    this.jobs.forEach((job, id) => {
+      if (job.mediaId === mediaId) this.jobs.delete(id);
+    });
+    this.saveJobs();
+  }
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database, private blobs: BlobStore) {}
+
+  // Rows stored before a column existed get the value MemStorage fills in on load
+  async init(): Promise<void> {
+    const undetermined = await this.db
+      .selectDistinct({ fileType: mediaFiles.fileType })
+      .from(mediaFiles)
+      .where(isNull(mediaFiles.displayFileType));
+    for (const { fileType } of undetermined) {
+      const displayFileType = displayFileTypeFor(fileType);
+      if (!displayFileType) continue;
+      await this.db
+        .update(mediaFiles)
+        .set({ displayFileType })
+        .where(and(eq(mediaFiles.fileType, fileType), isNull(mediaFiles.displayFileType)));
+    }
+
+    // Normalized here rather than in SQL so naive capture times are read the same way as on insert
+    const uncaptured = await this.db
+      .select({ id: mediaFiles.id, metadata: mediaFiles.metadata })
+      .from(mediaFiles)
+      .where(and(isNull(mediaFiles.capturedAt), sql`${mediaFiles.metadata}->'capture'->>'capturedAt' is not null`));
+    for (const { id, metadata } of uncaptured) {
+      const capturedAt = captureSortKey(metadata?.capture);
+      if (!capturedAt) continue;
+      await this.db.update(mediaFiles).set({ capturedAt }).where(eq(mediaFiles.id, id));
+    }
+  }
+
+  // User Operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Media Operations
+  async getAllMedia(): Promise<MediaFile[]> {
+    return this.db.select().from(mediaFiles).orderBy(asc(mediaFiles.id));
+  }
+
+  // Keyset pagination: the cursor is compared as a row so Postgres can walk
+  // the (sort key, id) indexes instead of counting past an offset
+  async getMediaPage(query: MediaQuery): Promise<MediaPage> {
+    const sortKey =
+      query.sort === "captured"
+        ? sql<string>`coalesce(${mediaFiles.capturedAt}, ${mediaFiles.uploadDate})`
+        : sql<string>`${mediaFiles.uploadDate}`;
+    const ascending = query.order === "asc";
+
+    const conditions: SQL[] = [];
+    if (query.type) conditions.push(like(mediaFiles.fileType, `${query.type}/%`));
+    if (query.uploader) conditions.push(sql`lower(${mediaFiles.uploaderName}) = ${query.uploader.toLowerCase()}`);
+    if (query.from) conditions.push(gte(sortKey, query.from));
+    if (query.to) conditions.push(lt(sortKey, query.to));
+    if (query.cursor) {
+      const { sortKey: key, id } = query.cursor;
+      conditions.push(
+        ascending
+          ? sql`(${sortKey}, ${mediaFiles.id}) > (${key}, ${id})`
+          : sql`(${sortKey}, ${mediaFiles.id}) < (${key}, ${id})`,
+      );
+    }
+
+    const rows = await this.db
+      .select()
+      .from(mediaFiles)
+      .where(and(...conditions))
+      .orderBy(...(ascending ? [asc(sortKey), asc(mediaFiles.id)] : [desc(sortKey), desc(mediaFiles.id)]))
+      .limit(query.limit + 1);
+
+    const items = rows.slice(0, query.limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor: rows.length > query.limit ? mediaCursor(mediaSortKey(last, query.sort), last.id) : null,
+    };
+  }
+
+  async getMediaById(id: number): Promise<MediaFile | undefined> {
+    const [media] = await this.db.select().from(mediaFiles).where(eq(mediaFiles.id, id));
+    return media;
+  }
+
+  async getMediaByHash(contentHash: string): Promise<MediaFile | undefined> {
+    const [media] = await this.db.select().from(mediaFiles).where(eq(mediaFiles.contentHash, contentHash));
+    return media;
+  }
+
+  async createMedia(insertMedia: InsertMedia, fileData: BlobSource): Promise<MediaFile> {
+    let media: MediaFile;
+    try {
+      [media] = await this.db
+        .insert(mediaFiles)
+        .values({ ...insertMedia, capturedAt: insertMedia.capturedAt ?? captureSortKey(insertMedia.metadata?.capture) })
+        .returning();
+    } catch (error) {
+      const existing =
+        (error as { code?: string }).code === UNIQUE_VIOLATION && insertMedia.contentHash
+          ? await this.getMediaByHash(insertMedia.contentHash)
+          : undefined;
+      if (existing) {
+        throw new DuplicateMediaError(existing);
+      }
+      throw error;
+    }
+
+    // The blob key depends on the generated id, so the row goes in first
+    // and is rolled back by hand if the bytes cannot be written.
+    try {
+      await this.blobs.put(mediaBlobKey(media), fileData, media.fileType);
+    } catch (error) {
+      await this.db.delete(mediaFiles).where(eq(mediaFiles.id, media.id));
+      throw error;
+    }
+
+    return media;
+  }
+
+  async updateMediaMetadata(id: number, patch: MediaMetadata): Promise<MediaFile | undefined> {
+    // Merge inside Postgres so concurrent updates to different keys don't clobber each other
+    const [media] = await this.db
+      .update(mediaFiles)
+      .set({
+        metadata: sql`coalesce(${mediaFiles.metadata}, '{}'::jsonb) || ${JSON.stringify(patch)}::jsonb`,
+        ...("capture" in patch ? { capturedAt: captureSortKey(patch.capture) } : {}),
+      })
+      .where(eq(mediaFiles.id, id))
+      .returning();
+    return media;
+  }
+
+  async setProcessingStatus(id: number, processingStatus: ProcessingStatus): Promise<MediaFile | undefined> {
+    const [media] = await this.db
+      .update(mediaFiles)
+      .set({ processingStatus })
+      .where(eq(mediaFiles.id, id))
+      .returning();
+    return media;
+  }
+
+  async deleteMedia(id: number): Promise<boolean> {
+    const [media] = await this.db.delete(mediaFiles).where(eq(mediaFiles.id, id)).returning();
+    if (!media) return false;
+
+    try {
+      await this.blobs.delete(mediaBlobKey(media));
+    } catch (error) {
+      console.error("Error deleting media file:", error);
+    }
+    return true;
+  }
+
+  async getMediaStream(id: number, range?: ByteRange): Promise<{ stream: Readable; mediaInfo: MediaFile } | undefined> {
+    const media = await this.getMediaById(id);
+    if (!media) return undefined;
+
+    try {
+      const stream = await this.blobs.stream(mediaBlobKey(media), range);
+      if (!stream) return undefined;
+
+      return { stream, mediaInfo: media };
     } catch (error) {
       console.error("Error reading media file:", error);
       return undefined;
     }
   }
+
+  // Settings Operations
+  async getSettings(): Promise<GallerySettings> {
+    const [row] = await this.db.select().from(appSettings).where(eq(appSettings.key, SETTINGS_KEY));
+    // Parsing fills in defaults for options added after the row was written
+    return gallerySettingsSchema.parse(row?.value ?? {});
+  }
+
+  async updateSettings(settings: GallerySettings): Promise<GallerySettings> {
+    await this.db
+      .insert(appSettings)
+      .values({ key: SETTINGS_KEY, value: settings })
+      .onConflictDoUpdate({ target: appSettings.key, set: { value: settings } });
+    return settings;
+  }
+
+  // Job Operations
+  async createJob(insertJob: InsertMediaJob): Promise<MediaJob> {
+    const [job] = await this.db.insert(mediaJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getUnfinishedJobs(): Promise<MediaJob[]> {
+    return this.db
+      .select()
+      .from(mediaJobs)
+      .where(inArray(mediaJobs.status, ["queued", "running"]))
+      .orderBy(asc(mediaJobs.id));
+  }
+
+  async getJobsForMedia(mediaId: number): Promise<MediaJob[]> {
+    return this.db.select().from(mediaJobs).where(eq(mediaJobs.mediaId, mediaId)).orderBy(asc(mediaJobs.id));
+  }
+
+  async updateJob(id: number, patch: Partial<InsertMediaJob>): Promise<MediaJob | undefined> {
+    const [job] = await this.db.update(mediaJobs).set(patch).where(eq(mediaJobs.id, id)).returning();
+    return job;
+  }
+
+  async deleteJobsForMedia(mediaId: number): Promise<void> {
+    await this.db.delete(mediaJobs).where(eq(mediaJobs.mediaId, mediaId));
+  }
 }
 
-export const storage = new MemStorage();
+export const blobStore: BlobStore = createBlobStore(config, mediaDir);
+
+// Use Postgres when one is provisioned; otherwise keep the index in memory.
+export const storage: IStorage = config.databaseUrl
+  ? new DbStorage(createDb(config.databaseUrl), blobStore)
+  : new MemStorage(blobStore);
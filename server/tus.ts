@@ -0,0 +1,355 @@
+import { Router, type Request, type Response } from "express";
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { config } from "./config";
+import { hashFile } from "./upload";
+import type { UploadResult } from "@shared/schema";
+import { ingestStagedFile, uploadFieldsSchema } from "./ingest";
+
+// Resumable uploads following the tus 1.0 core protocol with the creation,
+// expiration and termination extensions (https://tus.io/protocols/resumable-upload).
+// Bytes are appended to a file in the temp directory; once the last chunk
+// arrives the file goes through the same ingest as a multipart upload.
+
+const TUS_VERSION = "1.0.0";
+const TUS_EXTENSIONS = "creation,expiration,termination";
+// Unfinished uploads are dropped after a day without progress
+const EXPIRY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+const uploadDir = path.join(config.uploadTmpDir, "tus");
+fs.mkdirSync(uploadDir, { recursive: true });
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+interface UploadState {
+  id: string;
+  length: number;
+  offset: number;
+  // Decoded Upload-Metadata, e.g. { filename, filetype }
+  metadata: Record<string, string>;
+  expiresAt: string;
+  // Set once the last chunk has arrived and the file has been ingested
+  result?: UploadResult;
+}
+
+class UploadTooLongError extends Error {
+  constructor() {
+    super("Chunk goes past the declared Upload-Length");
+    this.name = "UploadTooLongError";
+  }
+}
+
+// Passes at most `remaining` bytes, failing the pipeline on anything more
+class LengthLimitStream extends Transform {
+  constructor(private remaining: number) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null, data?: Buffer) => void) {
+    if (chunk.length > this.remaining) {
+      callback(new UploadTooLongError());
+      return;
+    }
+    this.remaining -= chunk.length;
+    callback(null, chunk);
+  }
+}
+
+function dataPath(id: string): string {
+  return path.join(uploadDir, id);
+}
+
+function statePath(id: string): string {
+  return path.join(uploadDir, `${id}.json`);
+}
+
+async function readState(id: string): Promise<UploadState | undefined> {
+  if (!UPLOAD_ID_PATTERN.test(id)) return undefined;
+  try {
+    return JSON.parse(await fs.promises.readFile(statePath(id), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+async function writeState(state: UploadState) {
+  const tmpPath = `${statePath(state.id)}.tmp`;
+  await fs.promises.writeFile(tmpPath, JSON.stringify(state));
+  await fs.promises.rename(tmpPath, statePath(state.id));
+}
+
+async function removeUpload(id: string) {
+  await fs.promises.rm(dataPath(id), { force: true });
+  await fs.promises.rm(statePath(id), { force: true });
+}
+
+function isExpired(state: UploadState): boolean {
+  return !state.result && Date.parse(state.expiresAt) <= Date.now();
+}
+
+// "filename d2VkZGluZy5tcDQ=,filetype dmlkZW8vbXA0"; values are optional
+function parseMetadata(header: string | undefined): Record<string, string> | undefined {
+  const metadata: Record<string, string> = {};
+  if (!header) return metadata;
+
+  for (const pair of header.split(",")) {
+    const [key, value, ...rest] = pair.trim().split(" ");
+    if (!key || rest.length || key in metadata) return undefined;
+    metadata[key] = value ? Buffer.from(value, "base64").toString("utf8") : "";
+  }
+  return metadata;
+}
+
+function parseLength(header: string | undefined): number | undefined {
+  return header !== undefined && /^\d+$/.test(header) ? Number(header) : undefined;
+}
+
+function setExpires(res: Response, state: UploadState) {
+  if (!state.result) {
+    res.setHeader("Upload-Expires", new Date(state.expiresAt).toUTCString());
+  }
+}
+
+// Looks up the upload named in the URL, answering 404/410 itself when there is none
+async function findUpload(req: Request, res: Response): Promise<UploadState | undefined> {
+  const state = await readState(req.params.id);
+  if (!state) {
+    res.status(404).json({ message: "Upload not found" });
+    return undefined;
+  }
+  if (isExpired(state)) {
+    await removeUpload(state.id);
+    res.status(410).json({ message: "Upload expired" });
+    return undefined;
+  }
+  return state;
+}
+
+// The name as the client sent it may include directories; keep only the last
+// part, with either separator, the way busboy does for multipart uploads.
+// The record's name ends up in its blob key.
+function uploadFileName(name: string | undefined): string {
+  const base = path.posix.basename((name ?? "").replace(/\\/g, "/"));
+  return base && base !== "." && base !== ".." ? base : "upload";
+}
+
+async function finishUpload(state: UploadState) {
+  const filePath = dataPath(state.id);
+  const fields = uploadFieldsSchema.safeParse({
+    uploaderName: state.metadata.uploader,
+    optimized: state.metadata.optimized,
+  });
+  try {
+    state.result = await ingestStagedFile({
+      ...(fields.success ? fields.data : {}),
+      path: filePath,
+      originalName: uploadFileName(state.metadata.filename),
+      claimedType: state.metadata.filetype || "application/octet-stream",
+      size: state.length,
+      sha256: await hashFile(filePath),
+    });
+  } finally {
+    // Already moved into the blob store unless ingest refused it
+    await fs.promises.rm(filePath, { force: true });
+  }
+}
+
+// Uploads with a PATCH in progress; a second writer would corrupt the file
+const writing = new Set<string>();
+
+export const tusRouter = Router();
+
+tusRouter.use((req, res, next) => {
+  res.setHeader("Tus-Resumable", TUS_VERSION);
+  // GET is this app's own status lookup, not part of the protocol
+  if (req.method !== "OPTIONS" && req.method !== "GET" && req.get("Tus-Resumable") !== TUS_VERSION) {
+    res.setHeader("Tus-Version", TUS_VERSION);
+    return res.status(412).json({ message: "Unsupported tus version" });
+  }
+  next();
+});
+
+tusRouter.options("/", (_req: Request, res: Response) => {
+  res.setHeader("Tus-Version", TUS_VERSION);
+  res.setHeader("Tus-Extension", TUS_EXTENSIONS);
+  res.setHeader("Tus-Max-Size", String(config.maxUploadBytes));
+  return res.status(204).end();
+});
+
+tusRouter.post("/", async (req: Request, res: Response) => {
+  try {
+    if (req.get("Upload-Defer-Length")) {
+      return res.status(400).json({ message: "Upload-Length must be known when the upload is created" });
+    }
+
+    const length = parseLength(req.get("Upload-Length"));
+    if (length === undefined) {
+      return res.status(400).json({ message: "Missing or invalid Upload-Length" });
+    }
+    if (length > config.maxUploadBytes) {
+      return res.status(413).json({ message: `Upload exceeds the ${config.maxUploadBytes} byte limit` });
+    }
+
+    const metadata = parseMetadata(req.get("Upload-Metadata"));
+    if (!metadata) {
+      return res.status(400).json({ message: "Invalid Upload-Metadata" });
+    }
+
+    const state: UploadState = {
+      id: crypto.randomUUID(),
+      length,
+      offset: 0,
+      metadata,
+      expiresAt: new Date(Date.now() + EXPIRY_MS).toISOString(),
+    };
+    await fs.promises.writeFile(dataPath(state.id), "");
+    await writeState(state);
+
+    res.setHeader("Location", `${req.baseUrl}/${state.id}`);
+    setExpires(res, state);
+    return res.status(201).end();
+  } catch (error) {
+    console.error("Error creating upload:", error);
+    return res.status(500).json({ message: "Failed to create upload" });
+  }
+});
+
+tusRouter.head("/:id", async (req: Request, res: Response) => {
+  try {
+    const state = await findUpload(req, res);
+    if (!state) return;
+
+    res.setHeader("Cache-Control", "no-store");
+    res.setHeader("Upload-Offset", String(state.offset));
+    res.setHeader("Upload-Length", String(state.length));
+    setExpires(res, state);
+    return res.status(200).end();
+  } catch (error) {
+    console.error("Error reading upload offset:", error);
+    return res.status(500).end();
+  }
+});
+
+tusRouter.patch("/:id", async (req: Request, res: Response) => {
+  const id = req.params.id;
+  if (writing.has(id)) {
+    return res.status(409).json({ message: "Upload is already being written" });
+  }
+  writing.add(id);
+
+  try {
+    if (req.get("Content-Type") !== "application/offset+octet-stream") {
+      return res.status(415).json({ message: "Content-Type must be application/offset+octet-stream" });
+    }
+
+    const state = await findUpload(req, res);
+    if (!state) return;
+
+    if (parseLength(req.get("Upload-Offset")) !== state.offset) {
+      return res.status(409).json({ message: "Upload-Offset does not match the stored offset" });
+    }
+
+    if (!state.result) {
+      let failure: unknown;
+      try {
+        await pipeline(
+          req,
+          new LengthLimitStream(state.length - state.offset),
+          fs.createWriteStream(dataPath(id), { flags: "a" }),
+        );
+      } catch (error) {
+        failure = error;
+      }
+
+      // What reached the disk counts, even when the connection dropped midway
+      state.offset = (await fs.promises.stat(dataPath(id))).size;
+      state.expiresAt = new Date(Date.now() + EXPIRY_MS).toISOString();
+      await writeState(state);
+
+      if (failure instanceof UploadTooLongError) {
+        return res.status(413).json({ message: failure.message });
+      }
+      if (failure) {
+        // Usually the client went away; it resumes from the saved offset
+        console.warn(`Upload ${id} interrupted at ${state.offset}/${state.length} bytes`);
+        return res.status(500).end();
+      }
+
+      if (state.offset === state.length) {
+        await finishUpload(state);
+        await writeState(state);
+      }
+    }
+
+    res.setHeader("Upload-Offset", String(state.offset));
+    setExpires(res, state);
+    return res.status(204).end();
+  } catch (error) {
+    console.error("Error writing upload chunk:", error);
+    return res.status(500).json({ message: "Failed to write upload chunk" });
+  } finally {
+    writing.delete(id);
+  }
+});
+
+tusRouter.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const state = await readState(req.params.id);
+    if (!state) {
+      return res.status(404).json({ message: "Upload not found" });
+    }
+    if (writing.has(state.id)) {
+      return res.status(409).json({ message: "Upload is being written" });
+    }
+
+    await removeUpload(state.id);
+    return res.status(204).end();
+  } catch (error) {
+    console.error("Error terminating upload:", error);
+    return res.status(500).json({ message: "Failed to terminate upload" });
+  }
+});
+
+// Progress and, once finished, the ingest result of an upload
+tusRouter.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const state = await findUpload(req, res);
+    if (!state) return;
+
+    return res.json({ offset: state.offset, length: state.length, result: state.result ?? null });
+  } catch (error) {
+    console.error("Error reading upload:", error);
+    return res.status(500).json({ message: "Failed to read upload" });
+  }
+});
+
+// Removes expired uploads and data files whose state was never written
+export async function sweepExpiredUploads() {
+  const names = await fs.promises.readdir(uploadDir);
+  for (const name of names) {
+    const id = name.replace(/\.json$/, "");
+    if (!UPLOAD_ID_PATTERN.test(id) || writing.has(id)) continue;
+
+    const state = await readState(id);
+    if (state) {
+      // Finished uploads keep their result around for as long as an unfinished one would last
+      const finishedLongAgo = state.result && Date.parse(state.expiresAt) <= Date.now();
+      if (isExpired(state) || finishedLongAgo) await removeUpload(id);
+    } else {
+      const stats = await fs.promises.stat(dataPath(id)).catch(() => undefined);
+      if (stats && stats.mtimeMs + EXPIRY_MS <= Date.now()) await removeUpload(id);
+    }
+  }
+}
+
+export function scheduleUploadSweep() {
+  const sweep = () =>
+    sweepExpiredUploads().catch((error) => console.error("Error removing expired uploads:", error));
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
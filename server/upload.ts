@@ -0,0 +1,115 @@
+import type { Request } from "express";
+import type { StorageEngine } from "multer";
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+
+declare global {
+  namespace Express {
+    namespace Multer {
+      interface File {
+        // Hex SHA-256 of the bytes written to `path`
+        sha256?: string;
+        // Set instead of `path` when the file was refused while streaming
+        rejected?: string;
+      }
+    }
+  }
+}
+
+export class FileTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`File exceeds the ${+(maxBytes / (1024 * 1024)).toFixed(1)} MB limit`);
+    this.name = "FileTooLargeError";
+  }
+}
+
+// Counts and hashes bytes as they pass. Once the limit is crossed the rest is
+// read but dropped, so the source is always consumed to the end.
+class HashingLimitStream extends Transform {
+  readonly hash = crypto.createHash("sha256");
+  bytes = 0;
+
+  constructor(private maxBytes: number) {
+    super();
+  }
+
+  get overflowed(): boolean {
+    return this.bytes > this.maxBytes;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null, data?: Buffer) => void) {
+    this.bytes += chunk.length;
+    if (this.overflowed) {
+      callback();
+      return;
+    }
+    this.hash.update(chunk);
+    callback(null, chunk);
+  }
+}
+
+// Streams `source` into `filePath`, returning its size and SHA-256.
+// On failure the partial file is removed.
+export async function stageStream(
+  source: NodeJS.ReadableStream,
+  filePath: string,
+  maxBytes: number,
+): Promise<{ size: number; sha256: string }> {
+  const meter = new HashingLimitStream(maxBytes);
+  try {
+    await pipeline(source, meter, fs.createWriteStream(filePath));
+    if (meter.overflowed) {
+      throw new FileTooLargeError(maxBytes);
+    }
+  } catch (error) {
+    await fs.promises.rm(filePath, { force: true });
+    throw error;
+  }
+  return { size: meter.bytes, sha256: meter.hash.digest("hex") };
+}
+
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest("hex");
+}
+
+// Multer storage engine that writes each file to a temp directory while
+// hashing it, so uploads never sit in memory. Oversized files are reported
+// per file through `rejected` instead of aborting the whole request.
+export function stagingStorage(options: { dir: string; maxBytes: number }): StorageEngine {
+  fs.mkdirSync(options.dir, { recursive: true });
+
+  return {
+    _handleFile(_req: Request, file, callback) {
+      const filePath = path.join(options.dir, crypto.randomUUID());
+
+      stageStream(file.stream, filePath, options.maxBytes)
+        .then(({ size, sha256 }) => callback(null, { path: filePath, size, sha256 }))
+        .catch((error) => {
+          if (error instanceof FileTooLargeError) {
+            callback(null, { size: 0, rejected: error.message });
+          } else {
+            callback(error);
+          }
+        });
+    },
+
+    _removeFile(_req: Request, file, callback) {
+      if (!file.path) {
+        callback(null);
+        return;
+      }
+      fs.rm(file.path, { force: true }, callback);
+    },
+  };
+}
+
+export async function removeStagedFiles(files: Express.Multer.File[]) {
+  await Promise.all(
+    files.filter((file) => file.path).map((file) => fs.promises.rm(file.path, { force: true })),
+  );
+}
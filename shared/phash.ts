@@ -0,0 +1,20 @@
+// Two difference hashes at most this many bits apart are treated as the
+// same picture (re-compressed, resized or the next frame of a burst)
+export const SIMILARITY_THRESHOLD = 10;
+
+const bitCounts = Array.from({ length: 16 }, (_, nibble) =>
+  [1, 2, 4, 8].filter((bit) => nibble & bit).length,
+);
+
+// Number of differing bits between two equal-length hex hashes
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error("Hashes must have the same length");
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += bitCounts[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+}
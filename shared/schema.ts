@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, varchar, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, varchar, jsonb, uniqueIndex, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,21 +14,332 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// Downscaled copies generated for images (and video posters) at upload time
+export const RENDITION_WIDTHS = [320, 800, 1600] as const;
+export type RenditionWidth = (typeof RENDITION_WIDTHS)[number];
+
+export const renditionSchema = z.object({
+  // Requested width bucket; the actual pixel size never exceeds the original
+  target: z.union([z.literal(320), z.literal(800), z.literal(1600)]),
+  format: z.enum(["webp", "jpeg"]),
+  width: z.number().int(),
+  height: z.number().int(),
+  size: z.number().int(),
+});
+
+export const videoMetadataSchema = z.object({
+  duration: z.number().optional(),
+  width: z.number().int().optional(),
+  height: z.number().int().optional(),
+  videoCodec: z.string().optional(),
+  audioCodec: z.string().optional(),
+});
+
+// When and with what a photo or video was taken, read from EXIF/XMP or
+// QuickTime atoms
+export const captureMetadataSchema = z.object({
+  // ISO 8601; without an offset when the camera did not record one
+  capturedAt: z.string().optional(),
+  make: z.string().optional(),
+  model: z.string().optional(),
+  lens: z.string().optional(),
+  // Display size, i.e. after applying the orientation
+  width: z.number().int().optional(),
+  height: z.number().int().optional(),
+  // EXIF orientation, 1-8
+  orientation: z.number().int().min(1).max(8).optional(),
+  gps: z
+    .object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+      altitude: z.number().optional(),
+    })
+    .optional(),
+});
+
+// Used to spot resized copies and burst shots of the same moment
+export const perceptualSchema = z.object({
+  // 64-bit difference hash as 16 hex digits
+  dHash: z.string().regex(/^[0-9a-f]{16}$/),
+  // Higher is sharper; picks the cover of a group of similar shots
+  sharpness: z.number(),
+});
+
+// "location" removes GPS and device serial numbers from the copies guests
+// see; "all" removes every embedded tag. Admins can always fetch the original.
+export const PRIVACY_POLICIES = ["off", "location", "all"] as const;
+export type PrivacyPolicy = (typeof PRIVACY_POLICIES)[number];
+
+export const publicCopySchema = z.object({
+  policy: z.enum(["location", "all"]),
+  contentType: z.string(),
+  size: z.number().int(),
+  sha256: z.string(),
+});
+
+// The last failed attempt at a public copy, so guests are not made to wait
+// for the same failure on every request
+export const publicCopyErrorSchema = z.object({
+  policy: z.enum(["location", "all"]),
+  message: z.string(),
+  failedAt: z.string(),
+});
+
+// Browser-viewable JPEG made from an original that browsers cannot show
+export const displayCopySchema = z.object({
+  // Tags kept in the copy; missing on copies made before it was recorded
+  policy: z.enum(["location", "all"]).optional(),
+  contentType: z.string(),
+  size: z.number().int(),
+  sha256: z.string(),
+  width: z.number().int(),
+  height: z.number().int(),
+});
+
+// The H.264/AAC MP4 served for playback in place of a video's original
+export const playbackSchema = z.object({
+  status: z.enum(["pending", "ready", "failed"]),
+  // Privacy policy the metadata was stripped under
+  policy: z.enum(PRIVACY_POLICIES).optional(),
+  // False when the original already was H.264/AAC and was only remuxed
+  transcoded: z.boolean().optional(),
+  size: z.number().int().optional(),
+  sha256: z.string().optional(),
+  lastError: z.string().optional(),
+  updatedAt: z.string(),
+});
+
+export const mirrorStateSchema = z.object({
+  status: z.enum(["pending", "uploading", "uploaded", "failed"]),
+  attempts: z.number().int(),
+  url: z.string().optional(),
+  lastError: z.string().optional(),
+  updatedAt: z.string(),
+});
+
+// Shape of media_files.metadata. Unknown keys are kept so records written by
+// older versions still validate.
+export const mediaMetadataSchema = z
+  .object({
+    originalName: z.string().optional(),
+    recovered: z.boolean().optional(),
+    // Resized in the browser before upload, so not the camera original
+    optimized: z.boolean().optional(),
+    capture: captureMetadataSchema.optional(),
+    video: videoMetadataSchema.optional(),
+    renditions: z.array(renditionSchema).optional(),
+    perceptual: perceptualSchema.optional(),
+    publicCopy: publicCopySchema.optional(),
+    publicCopyError: publicCopyErrorSchema.optional(),
+    playback: playbackSchema.optional(),
+    display: displayCopySchema.optional(),
+    cloudinary: mirrorStateSchema.optional(),
+    cloudinaryUrl: z.string().optional(),
+  })
+  .passthrough();
+
+export type Rendition = z.infer<typeof renditionSchema>;
+export type RenditionFormat = Rendition["format"];
+export type VideoMetadata = z.infer<typeof videoMetadataSchema>;
+export type CaptureMetadata = z.infer<typeof captureMetadataSchema>;
+export type Perceptual = z.infer<typeof perceptualSchema>;
+export type PublicCopy = z.infer<typeof publicCopySchema>;
+export type Playback = z.infer<typeof playbackSchema>;
+export type DisplayCopy = z.infer<typeof displayCopySchema>;
+export type MirrorState = z.infer<typeof mirrorStateSchema>;
+export type MediaMetadata = z.infer<typeof mediaMetadataSchema>;
+
+// "processing" until every job that produces something guests see has run
+export const PROCESSING_STATUSES = ["processing", "ready", "failed"] as const;
+export type ProcessingStatus = (typeof PROCESSING_STATUSES)[number];
+
 export const mediaFiles = pgTable("media_files", {
   id: serial("id").primaryKey(),
   fileName: text("file_name").notNull(),
   fileType: text("file_type").notNull(),
   fileSize: integer("file_size").notNull(),
   uploadDate: text("upload_date").notNull(),
-  metadata: jsonb("metadata"),
-});
+  // Hex SHA-256 of the stored bytes
+  contentHash: text("content_hash"),
+  // Name the guest gave when uploading
+  uploaderName: text("uploader_name"),
+  // What guests are shown when it differs from the stored original, e.g.
+  // image/jpeg for an iPhone's image/heic
+  displayFileType: text("display_file_type"),
+  processingStatus: text("processing_status").$type<ProcessingStatus>().notNull().default("ready"),
+  // metadata.capture.capturedAt as UTC, kept in a column so listings can sort on it
+  capturedAt: text("captured_at"),
+  metadata: jsonb("metadata").$type<MediaMetadata>(),
+}, (table) => [
+  // The same bytes are only ever stored once
+  uniqueIndex("media_files_content_hash_idx").on(table.contentHash),
+  // Keyset pagination for both listing orders
+  index("media_files_upload_date_idx").on(table.uploadDate, table.id),
+  index("media_files_taken_idx").on(sql`coalesce(${table.capturedAt}, ${table.uploadDate})`, table.id),
+]);
 
-export const insertMediaSchema = createInsertSchema(mediaFiles).omit({
+export const insertMediaSchema = createInsertSchema(mediaFiles, {
+  metadata: mediaMetadataSchema.nullish(),
+  processingStatus: z.enum(PROCESSING_STATUSES).optional(),
+}).omit({
   id: true
 });
 
+export const JOB_TYPES = [
+  "metadata",
+  "display-copy",
+  "renditions",
+  "perceptual-hash",
+  "poster",
+  "public-copy",
+  "transcode",
+  "mirror",
+] as const;
+export type JobType = (typeof JOB_TYPES)[number];
+
+export const JOB_STATUSES = ["queued", "running", "done", "failed"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+// Background work on one media file; see server/jobs.ts
+export const mediaJobs = pgTable("media_jobs", {
+  id: serial("id").primaryKey(),
+  mediaId: integer("media_id").notNull(),
+  type: text("type").$type<JobType>().notNull(),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  // Not started before this time (ISO 8601); pushed back after a failed attempt
+  runAt: text("run_at").notNull(),
+  // Waits until this job has finished, successfully or not
+  dependsOn: integer("depends_on"),
+  lastError: text("last_error"),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => [
+  index("media_jobs_status_idx").on(table.status),
+  index("media_jobs_media_id_idx").on(table.mediaId),
+]);
+
+export type MediaJob = typeof mediaJobs.$inferSelect;
+export type InsertMediaJob = typeof mediaJobs.$inferInsert;
+
+// A couple-supplied PNG laid over photo booth shots
+export const boothFrameSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().trim().min(1).max(80),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  size: z.number().int().nonnegative(),
+});
+
+// Gallery-wide options the couple can change at runtime
+export const gallerySettingsSchema = z.object({
+  compression: z
+    .object({
+      // Whether guests are offered to shrink photos in the browser before uploading
+      enabled: z.boolean().default(true),
+      // Longest side of an optimized photo, in pixels
+      maxDimension: z.number().int().min(640).max(8192).default(2560),
+      // JPEG quality between 0 and 1
+      quality: z.number().min(0.5).max(1).default(0.85),
+    })
+    .default({}),
+  // Uploader names (e.g. the official photographer) that must send untouched originals
+  originalsOnlyUploaders: z.array(z.string().trim().min(1).max(80)).default([]),
+  booth: z
+    .object({
+      // Printed under photo strips, e.g. the couple's names and the date
+      caption: z.string().trim().max(80).default(""),
+      // Managed through /api/booth/frames, which also stores the images
+      frames: z.array(boothFrameSchema).max(20).default([]),
+    })
+    .default({}),
+});
+
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+});
+
+export type GallerySettings = z.infer<typeof gallerySettingsSchema>;
+export type BoothFrame = z.infer<typeof boothFrameSchema>;
+
+// Whether `uploaderName` is on the originals-only list
+export function isOriginalsOnlyUploader(settings: GallerySettings, uploaderName: string | null | undefined): boolean {
+  const name = uploaderName?.trim().toLowerCase();
+  return !!name && settings.originalsOnlyUploaders.some((entry) => entry.toLowerCase() === name);
+}
+
+// HEIC/HEIF only displays in Safari, so every other browser gets a JPEG
+const DISPLAY_FILE_TYPES: Record<string, string> = {
+  "image/heic": "image/jpeg",
+  "image/heif": "image/jpeg",
+};
+
+export function displayFileTypeFor(fileType: string): string | null {
+  return DISPLAY_FILE_TYPES[fileType] ?? null;
+}
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type MediaFile = typeof mediaFiles.$inferSelect;
 export type InsertMedia = z.infer<typeof insertMediaSchema>;
+
+// Capture times without a UTC offset are read in the server's time zone
+export function captureSortKey(capture: CaptureMetadata | undefined): string | null {
+  if (!capture?.capturedAt) return null;
+  const date = new Date(capture.capturedAt);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+const isoInstant = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Expected a date")
+  .transform((value) => new Date(value).toISOString());
+
+// The last item of a page, as `<sort key>_<id>`
+export function mediaCursor(sortKey: string, id: number): string {
+  return `${sortKey}_${id}`;
+}
+
+const MEDIA_CURSOR = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z)_(\d+)$/;
+
+// Query string of GET /api/media. `from` is inclusive and `to` exclusive, both
+// compared with the field being sorted on; "captured" falls back to the upload
+// time for media without a capture time.
+export const mediaQuerySchema = z
+  .object({
+    cursor: z
+      .string()
+      .regex(MEDIA_CURSOR, "Invalid cursor")
+      .transform((cursor) => {
+        const [, sortKey, id] = MEDIA_CURSOR.exec(cursor)!;
+        return { sortKey, id: Number(id) };
+      })
+      .optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(60),
+    type: z.enum(["image", "video"]).optional(),
+    sort: z.enum(["captured", "uploaded"]).default("captured"),
+    // Defaults to oldest first when sorting by capture time, newest first by upload
+    order: z.enum(["asc", "desc"]).optional(),
+    from: isoInstant.optional(),
+    to: isoInstant.optional(),
+    uploader: z.string().trim().min(1).max(80).optional(),
+  })
+  .transform((query) => ({
+    ...query,
+    order: query.order ?? (query.sort === "captured" ? ("asc" as const) : ("desc" as const)),
+  }));
+
+export type MediaQuery = z.output<typeof mediaQuerySchema>;
+export type MediaSort = MediaQuery["sort"];
+
+export interface MediaPage {
+  items: MediaFile[];
+  // Pass back as `cursor` for the next page; null on the last one
+  nextCursor: string | null;
+}
+
+// Outcome of one uploaded file, as listed in upload responses
+export type UploadResult =
+  | { id: number; fileName: string; status: "success" | "duplicate" }
+  | { fileName: string; status: "error"; message: string };